@@ -1,15 +1,32 @@
-import React, { useState, useEffect } from 'react';
-import { UserProfile, Drill, DrillSchedule, Theme, DrillOutcome, LinkedAccount, AccountProvider, TrainingMode, ChessGame, TimeControl } from './types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { UserProfile, Attempt, Drill, DrillSchedule, DrillEvaluation, Theme, DrillOutcome, LinkedAccount, AccountProvider, TrainingMode, ChessGame, TimeControl, EndgameType, SchedulerType, ScheduleState, ReviewSessionSettings, SkillState, LearningContractConfig, ContractPreset } from './types';
 import { fetchRecentGames } from './services/lichessService';
 import { fetchChessComGames } from './services/chesscomService';
-import { generateDrillFromMode, generateDemoDrill, getDemoGames } from './services/analysisService';
-import { scheduler } from './services/scheduler';
-import { createInitialSkill, updateSkill } from './services/skillService';
+import { generateDrillFromMode, generateDemoDrill, getDemoGames, generateDrillsFromGames } from './services/analysisService';
+import { createRng, randomSeed } from './services/random';
+import { getScheduler, migrateSchedules, SCHEDULER_LABELS } from './services/schedulerRegistry';
+import { countRepeatReviews, optimizeFsrsParameters } from './services/fsrsScheduler';
+import { DueFirstSelectionPolicy, getDueDrills } from './services/selectionPolicy';
+import { computeThemeWeights, interleaveByTheme, pickThemeOrder, THEME_MODES } from './services/interleavingService';
+import { createInitialSkill, decaySkill, decaySkills, updateSkill } from './services/skillService';
+import { appendSkillSnapshot, seedSkillHistory } from './services/skillHistoryService';
+import { aggregateRating, seedRatings, updateTrainingRating } from './services/ratingService';
+import { calibrateDifficulty, estimateDifficulty, recordCalibrationOutcome } from './services/difficultyService';
+import { createPrerequisiteDrill, detectLeech, suspendSchedule, tagLeech, unsuspendSchedule, untagLeech } from './services/leechService';
+import { activeThemeLocks, lockTheme, pickRemedialDrills, recordThemeOutcome } from './services/themeLockService';
+import { CONTRACT_PRESETS, learningLoop, resolveContract } from './services/learningLoop';
+import { attachCoachVerdict, queryAttempts, recordAttempt, summarizeAttempts } from './services/attemptService';
 import { logEvent, getRecentLogs } from './services/logger';
 import { DrillPlayer } from './components/DrillPlayer';
 import { Dashboard } from './components/Dashboard'; 
-import { APP_NAME } from './constants';
+import { LeechRemediation } from './components/LeechRemediation';
+import { SuspendedDrills } from './components/SuspendedDrills';
+import { WorkloadForecast } from './components/WorkloadForecast';
+import { APP_NAME, FSRS_SETTINGS, LEARNING_STEP_SETTINGS, REVIEW_SESSION_SETTINGS } from './constants';
 import { persistence } from './services/persistence';
+import { resolveUserPerspective, findCanonicalUsername } from './services/playerIdentity';
+import { summarizeTimeManagement } from './services/clockService';
+import { summarizeEndgames } from './services/endgameService';
 
 const Icons = {
   Brain: () => <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" /></svg>,
@@ -19,7 +36,7 @@ const Icons = {
   Flag: () => <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-8a2 2 0 012-2h10a2 2 0 012 2v8m2-2h-2m2-4h-2m-2-4h-2m-2-4h-2m-2-4h-2" /></svg>
 };
 
-enum View { ONBOARDING, IMPORT_SUMMARY, MODE_SELECTION, DASHBOARD, TRAINING, PROFILE }
+enum View { ONBOARDING, IMPORT_SUMMARY, MODE_SELECTION, DASHBOARD, TRAINING, PROFILE, REMEDIATION, SUSPENDED, FORECAST }
 interface ToastMessage { id: number; text: string; type: 'error' | 'success' | 'info'; }
 
 export default function App() {
@@ -28,34 +45,104 @@ export default function App() {
   const [rawGames, setRawGames] = useState<ChessGame[]>([]);
   const [drills, setDrills] = useState<Drill[]>([]);
   const [schedules, setSchedules] = useState<Record<string, DrillSchedule>>({});
+  const [attempts, setAttempts] = useState<Attempt[]>([]);
   const [selectedTimeControls, setSelectedTimeControls] = useState<TimeControl[]>(['rapid', 'blitz', 'classical']);
   const [sessionQueue, setSessionQueue] = useState<string[]>([]);
   const [activeQueueIndex, setActiveQueueIndex] = useState(0);
   const [loadingState, setLoadingState] = useState<{status: string, progress: number} | null>(null);
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
   const [showDiagnostics, setShowDiagnostics] = useState(false);
+  // Drill shown on the remediation screen (set when a drill turns into a leech)
+  const [remediationDrillId, setRemediationDrillId] = useState<string | null>(null);
   
+  // Nothing is saved until stored data has been read, so defaults cannot overwrite it
+  const [isHydrated, setIsHydrated] = useState(false);
+
   useEffect(() => {
-    try {
-        const loadedUser = persistence.loadUser();
-        if (loadedUser) {
-          setUser(loadedUser);
-          setRawGames(persistence.loadGames());
-          setDrills(persistence.loadDrills());
-          setSchedules(persistence.loadSchedules());
-          setSelectedTimeControls(persistence.loadTimeControls());
-          setView(View.DASHBOARD);
-        }
-    } catch (e) { console.error(e); }
+    const hydrate = async () => {
+      // Everything is read before any state is set, so a failed load leaves nothing half-applied
+      const loadStored = async () => {
+        const loadedUser = await persistence.loadUser();
+        if (!loadedUser) return;
+        // Games imported before side tracking existed get resolved against the linked accounts here
+        const usernames = loadedUser.accounts.map(a => a.username);
+        const loadedGames = (await persistence.loadGames()).map(g => g.userColor ? g : resolveUserPerspective(g, usernames));
+        const loadedDrills = await persistence.loadDrills();
+        const loadedAttempts = await persistence.loadAttempts();
+        const loadedSchedules = await persistence.loadSchedules();
+        const loadedTimeControls = await persistence.loadTimeControls();
+        // Profiles from before skill history and rating estimates start both from what is stored today
+        const ratings = loadedUser.ratings || seedRatings(loadedGames, undefined, Date.now());
+        setUser({
+            ...loadedUser,
+            skillHistory: loadedUser.skillHistory || seedSkillHistory(loadedUser.skills, Date.now()),
+            ratings,
+            rating: loadedUser.ratings ? loadedUser.rating : aggregateRating(ratings)
+        });
+        setRawGames(loadedGames);
+        setDrills(loadedDrills);
+        setAttempts(loadedAttempts);
+        setSchedules(migrateSchedules(loadedSchedules, loadedUser.schedulerType || SchedulerType.SM2));
+        setSelectedTimeControls(loadedTimeControls);
+        setView(View.DASHBOARD);
+      };
+
+      setLoadingState({ status: "Loading your data...", progress: 30 });
+      try {
+        await loadStored().catch((e: Error) => {
+          // IndexedDB would not open or read: carry on with localStorage rather than not saving at all
+          if (!persistence.fallBackToLocalStorage(e)) throw e;
+          showToast(`Could not open the database (${e.message}). Saving to browser storage for now.`, 'error');
+          return loadStored();
+        });
+        setIsHydrated(true);
+      } catch (e: any) {
+        console.error(e);
+        showToast(`Could not load your data: ${e.message || 'storage unavailable'}`, 'error');
+      } finally {
+        setLoadingState(null);
+      }
+    };
+    hydrate();
+    return persistence.onWriteError(error => showToast(`${error.message}. Recent changes may be lost.`, 'error'));
   }, []);
 
-  useEffect(() => {
-    if (user) persistence.saveUser(user);
-    if (rawGames.length) persistence.saveGames(rawGames);
-    if (drills.length) persistence.saveDrills(drills);
-    if (Object.keys(schedules).length) persistence.saveSchedules(schedules);
-    persistence.saveTimeControls(selectedTimeControls);
-  }, [user, rawGames, drills, schedules, selectedTimeControls]);
+  // One effect per collection, so a change only re-saves what changed
+  useEffect(() => { if (isHydrated && user) persistence.saveUser(user); }, [isHydrated, user]);
+  useEffect(() => { if (isHydrated) persistence.saveGames(rawGames); }, [isHydrated, rawGames]);
+  useEffect(() => { if (isHydrated) persistence.saveDrills(drills); }, [isHydrated, drills]);
+  useEffect(() => { if (isHydrated) persistence.saveSchedules(schedules); }, [isHydrated, schedules]);
+  useEffect(() => { if (isHydrated) persistence.saveAttempts(attempts); }, [isHydrated, attempts]);
+  useEffect(() => { if (isHydrated) persistence.saveTimeControls(selectedTimeControls); }, [isHydrated, selectedTimeControls]);
+
+  const scheduler = useMemo(() => getScheduler(user), [user?.schedulerType, user?.fsrsParameters]);
+  const contract = useMemo(() => resolveContract(user), [user?.contractPreset, user?.contractOverrides]);
+  const selectionPolicy = useMemo(() => new DueFirstSelectionPolicy(user?.reviewSettings), [user?.reviewSettings]);
+  const themeWeights = useMemo(() => user ? computeThemeWeights(user.skills, Date.now()) : [], [user?.skills]);
+  // Themes of the most recently reviewed drills, newest first
+  const recentThemes = useMemo(() => (Object.values(schedules) as DrillSchedule[])
+      .filter(s => s.lastReviewedAt)
+      .sort((a, b) => b.lastReviewedAt! - a.lastReviewedAt!)
+      .slice(0, 5)
+      .map(s => drills.find(d => d.id === s.drillId)?.theme)
+      .filter((t): t is Theme => !!t), [drills, schedules]);
+  // Mean of the theme skills, the starting point for workload simulations
+  const averageSkill = useMemo(() => {
+      if (!user) return undefined;
+      const skills = Object.values(decaySkills(user.skills, Date.now())) as SkillState[];
+      const mean = (pick: (s: SkillState) => number) => skills.reduce((sum, s) => sum + pick(s), 0) / skills.length;
+      return { ...createInitialSkill(), mastery: mean(s => s.mastery), confidence: mean(s => s.confidence) };
+  }, [user?.skills]);
+  const suspendedDrills = useMemo(() => drills.filter(d => schedules[d.id]?.suspended), [drills, schedules]);
+  // Read on every render so locks lapse on time
+  const themeLocks = activeThemeLocks(user?.themeLocks, Date.now());
+  const dueCount = useMemo(() => getDueDrills(drills.filter(d => !themeLocks[d.theme]), schedules, Date.now()).length, [drills, schedules, user?.themeLocks]);
+
+  const recentAttempts = useMemo(() => queryAttempts(attempts, { limit: 5 }), [attempts]);
+  const weeklySummary = useMemo(() => summarizeAttempts(queryAttempts(attempts, { from: Date.now() - 7 * 24 * 60 * 60 * 1000 })), [attempts]);
+
+  const timeReport = useMemo(() => summarizeTimeManagement(rawGames, drills), [rawGames, drills]);
+  const endgameReport = useMemo(() => summarizeEndgames(rawGames), [rawGames]);
 
   const showToast = (text: string, type: 'error' | 'success' | 'info' = 'info') => {
       const id = Date.now();
@@ -63,9 +150,9 @@ export default function App() {
       setTimeout(() => setToasts(prev => prev.filter(t => t.id !== id)), 4000);
   };
 
-  const handleFullReset = () => {
+  const handleFullReset = async () => {
       if (window.confirm("Are you sure? This will delete all local data.")) {
-          persistence.clearAll();
+          await persistence.clearAll();
           window.location.reload();
       }
   };
@@ -75,15 +162,16 @@ export default function App() {
     try {
       let newGames: ChessGame[] = [];
       let isDemo = false;
+      const linkedUsernames = user?.accounts.map(a => a.username) || [];
 
       // EXPLICIT DEMO LOGIC
       if (usernameInput === 'demo') {
          newGames = getDemoGames(); 
          isDemo = true;
       } else if (provider === 'lichess') {
-         newGames = await fetchRecentGames(usernameInput, 60);
+         newGames = await fetchRecentGames(usernameInput, 60, linkedUsernames);
       } else {
-         newGames = await fetchChessComGames(usernameInput, 40);
+         newGames = await fetchChessComGames(usernameInput, 40, linkedUsernames);
       }
 
       setLoadingState({ status: `Analyzed ${newGames.length} games.`, progress: 100 });
@@ -94,27 +182,42 @@ export default function App() {
         return;
       }
 
-      const finalUsername = isDemo ? 'Demo User' : (newGames[0]?.white === 'Anonymous' ? usernameInput : newGames[0]?.white || usernameInput);
+      const handle = usernameInput.trim().split('/').pop() || usernameInput;
+      const finalUsername = isDemo ? 'Demo User' : findCanonicalUsername(newGames, handle);
       
+      const gameIds = new Set(rawGames.map(g => g.id));
+      const uniqueNewGames = newGames.filter(g => !gameIds.has(g.id));
+      const accounts = [...(user?.accounts || []), { provider, username: finalUsername, status: 'active', lastSyncAt: Date.now() } as LinkedAccount];
+      // A newly linked account may also appear in previously imported games
+      const allUsernames = accounts.map(a => a.username);
+      const allGames = [...rawGames, ...uniqueNewGames].map(g => resolveUserPerspective(g, allUsernames));
+      const ratings = seedRatings(allGames, user?.ratings, Date.now());
+
+      const initialSkills = Object.values(Theme).reduce((acc, theme) => { acc[theme as Theme] = createInitialSkill(); return acc; }, {} as Record<Theme, any>);
       const newUserProfile = user ? {
           ...user,
-          accounts: [...user.accounts, { provider, username: finalUsername, status: 'active', lastSyncAt: Date.now() } as LinkedAccount]
+          accounts,
+          ratings,
+          rating: aggregateRating(ratings)
       } : {
           id: `user-${Date.now()}`,
           username: finalUsername,
-          accounts: [{ provider, username: finalUsername, status: 'active', lastSyncAt: Date.now() }] as LinkedAccount[],
-          rating: 1200, 
-          skills: Object.values(Theme).reduce((acc, theme) => { acc[theme as Theme] = createInitialSkill(); return acc; }, {} as Record<Theme, any>)
+          accounts,
+          ratings,
+          rating: aggregateRating(ratings),
+          skills: initialSkills,
+          skillHistory: seedSkillHistory(initialSkills, Date.now())
       };
 
       setUser(newUserProfile);
-      
-      const gameIds = new Set(rawGames.map(g => g.id));
-      const uniqueNewGames = newGames.filter(g => !gameIds.has(g.id));
-      setRawGames(prev => [...prev, ...uniqueNewGames]);
+      setRawGames(allGames);
 
       setLoadingState(null);
       setView(View.DASHBOARD);
+
+      if (!isDemo) {
+          mineMistakes(uniqueNewGames, newUserProfile.id);
+      }
       
     } catch (e: any) {
       showToast(e.message || "Import failed", 'error');
@@ -122,30 +225,58 @@ export default function App() {
     }
   };
 
+  // Runs in the background after import; the engine is slow, so the user can keep training meanwhile.
+  // Takes the user id explicitly: on a first import the profile is created in the same handler
+  const mineMistakes = async (games: ChessGame[], userId: string) => {
+      const ownGames = games.filter(g => g.userColor);
+      if (ownGames.length === 0) return;
+      try {
+          const mined = await generateDrillsFromGames(ownGames);
+          logEvent('mistakes_mined', { games: games.length, drills: mined.length }, userId);
+          if (mined.length === 0) return;
+
+          setDrills(prev => {
+              const known = new Set(prev.map(d => d.id));
+              return [...prev, ...mined.filter(d => !known.has(d.id))];
+          });
+          setSchedules(prev => {
+              const next = { ...prev };
+              mined.forEach(d => { if (!next[d.id]) next[d.id] = scheduler.createInitialSchedule(d.id); });
+              return next;
+          });
+          showToast(`Found ${mined.length} mistakes to drill.`, 'success');
+      } catch (e: any) {
+          logEvent('mistake_mining_failed', { message: e.message }, userId, 'warn');
+      }
+  };
+
+  const getEligibleGames = () => {
+      // If we are in demo mode, allow any of the demo games
+      const isDemoUser = rawGames.some(g => g.id.startsWith('demo-game'));
+      return isDemoUser
+          ? rawGames
+          : rawGames.filter(g => selectedTimeControls.includes(g.timeControl) || g.timeControl === 'unknown');
+  };
+
   const handleModeSelect = (mode: TrainingMode, options: any = {}) => {
       setLoadingState({ status: "Preparing training session...", progress: 50 });
       
       try {
-        // If we are in demo mode, allow any of the demo games
-        const isDemoUser = rawGames.some(g => g.id.startsWith('demo-game'));
-        const eligibleGames = isDemoUser 
-            ? rawGames 
-            : rawGames.filter(g => selectedTimeControls.includes(g.timeControl) || g.timeControl === 'unknown');
+        const eligibleGames = getEligibleGames();
         
         if (eligibleGames.length === 0) {
             throw new Error("No games match selected filters.");
         }
         
-        let selectedMode = mode;
-        if (mode === TrainingMode.ANY) {
-            const r = Math.random();
-            if (r < 0.4) selectedMode = TrainingMode.CRITICAL_POSITION;
-            else if (r < 0.65) selectedMode = TrainingMode.RANDOM_MOMENT;
-            else if (r < 0.85) selectedMode = TrainingMode.START_FROM_MOVE;
-            else selectedMode = TrainingMode.ENDGAME_FINISH;
+        // One seed drives both the theme pick and the drill itself, so a report can be replayed
+        const seed = randomSeed();
+        const drill = mode === TrainingMode.ANY
+            ? generateAdaptiveDrill(eligibleGames, recentThemes, seed)
+            : generateDrillFromMode(eligibleGames, mode, options, seed);
+        const lock = themeLocks[drill.theme];
+        if (lock) {
+            throw new Error(`${drill.theme} is locked until ${new Date(lock.unlocksAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`);
         }
-
-        const drill = generateDrillFromMode(eligibleGames, selectedMode, options);
         startSessionWithDrill(drill);
 
       } catch (e: any) {
@@ -154,9 +285,74 @@ export default function App() {
       }
   };
 
+  /**
+   * Tries themes in weighted order (weakest and stalest first) until a generator produces a drill.
+   */
+  const generateAdaptiveDrill = (games: ChessGame[], recent: Theme[], seed: number): Drill => {
+      const order = pickThemeOrder(themeWeights.filter(w => !themeLocks[w.theme]), recent, createRng(seed));
+      let lastError: any = new Error(order.length ? "No games provided for analysis." : "Every theme is locked. Take a break and come back later.");
+      for (const theme of order) {
+          try {
+              return generateDrillFromMode(games, THEME_MODES[theme], {}, seed);
+          } catch (e) {
+              lastError = e;
+          }
+      }
+      throw lastError;
+  };
+
+  const handleReviewSession = () => {
+      const plan = selectionPolicy.planSession(drills.filter(d => !themeLocks[d.theme]), schedules, Date.now());
+
+      // Top up with fresh drills when storage has too few unseen ones
+      const eligibleGames = getEligibleGames();
+      const generated: Drill[] = [];
+      for (let i = 0; i < plan.newToGenerate && eligibleGames.length > 0; i++) {
+          try {
+              const seed = randomSeed();
+              const recent = [...generated.map(d => d.theme).reverse(), ...recentThemes];
+              const drill = generateAdaptiveDrill(eligibleGames, recent, seed);
+              if (!generated.some(d => d.id === drill.id)) generated.push(drill);
+          } catch (e) {
+              break;
+          }
+      }
+
+      const themeOf = (id: string) => (drills.find(d => d.id === id) || generated.find(d => d.id === id))!.theme;
+      const queue = interleaveByTheme(selectionPolicy.buildQueue(plan, generated.filter(d => !schedules[d.id]).map(d => d.id)), themeOf);
+      if (queue.length === 0) {
+          showToast("Nothing due. Start a session to learn new drills.", 'info');
+          return;
+      }
+
+      setDrills(prev => [...prev, ...generated.filter(g => !prev.some(d => d.id === g.id))]);
+      setSchedules(prev => {
+          const next = { ...prev };
+          generated.forEach(d => { if (!next[d.id]) next[d.id] = scheduler.createInitialSchedule(d.id); });
+          return next;
+      });
+      setSessionQueue(queue);
+      setActiveQueueIndex(0);
+      setView(View.TRAINING);
+      logEvent('review_session_started', { reviews: plan.reviewIds.length, fresh: queue.length - plan.reviewIds.length }, user?.id);
+  };
+
+  const handleRemedialSet = (theme: Theme) => {
+      const remedial = pickRemedialDrills(drills, schedules, theme);
+      if (remedial.length === 0) {
+          showToast(`No ${theme} drills to practise yet.`, 'info');
+          return;
+      }
+      setSessionQueue(remedial.map(d => d.id));
+      setActiveQueueIndex(0);
+      setView(View.TRAINING);
+      logEvent('remedial_session_started', { theme, drills: remedial.length }, user?.id);
+  };
+
   const startSessionWithDrill = (drill: Drill) => {
-      setDrills(prev => [...prev, drill]);
-      setSchedules(prev => ({...prev, [drill.id]: scheduler.createInitialSchedule(drill.id)}));
+      // Some generators (e.g. repertoire) produce stable ids: refresh the drill but keep its schedule
+      setDrills(prev => prev.some(d => d.id === drill.id) ? prev.map(d => d.id === drill.id ? drill : d) : [...prev, drill]);
+      setSchedules(prev => prev[drill.id] ? prev : {...prev, [drill.id]: scheduler.createInitialSchedule(drill.id)});
       setSessionQueue([drill.id]);
       setActiveQueueIndex(0);
       
@@ -169,19 +365,136 @@ export default function App() {
       const drill = drills.find(d => d.id === currentDrillId);
       if (!drill) return;
 
+      setAttempts(prev => recordAttempt(prev, {
+          id: resultData.attemptId || `${drill.id}-${Date.now()}`,
+          drillId: drill.id,
+          theme: drill.theme,
+          timestamp: Date.now(),
+          outcome,
+          durationMs: resultData.durationMs || 0,
+          userMoves: resultData.userMoves || [],
+          moveTimesMs: resultData.moveTimesMs || [],
+          hintUsed: !!resultData.hintUsed
+      }));
+
       const currentSchedule = schedules[drill.id];
-      const newSchedule = scheduler.calculateNext(currentSchedule, outcome);
+      let newSchedule = scheduler.calculateNext(currentSchedule, outcome);
+
+      const isLeech = detectLeech(currentSchedule, newSchedule);
+      if (isLeech) {
+          newSchedule = suspendSchedule(newSchedule, Date.now());
+          setDrills(prev => prev.map(d => d.id === drill.id ? tagLeech(d) : d));
+          setRemediationDrillId(drill.id);
+          logEvent('drill_suspended', { drillId: drill.id, lapses: newSchedule.lapses }, user.id);
+          showToast("This drill keeps slipping. It's paused for a closer look.", 'info');
+      }
       setSchedules(prev => ({ ...prev, [drill.id]: newSchedule }));
 
-      const oldSkill = user.skills[drill.theme];
-      const newSkill = updateSkill(oldSkill, outcome, drill.difficulty);
-      
-      setUser({ ...user, skills: { ...user.skills, [drill.theme]: newSkill } });
-      logEvent('drill_completed', { ...resultData, outcome }, user.id);
+      // Drills back in (re)learning steps return before the session ends, a bounded number of times
+      const inSteps = !isLeech && (newSchedule.state === ScheduleState.LEARNING || newSchedule.state === ScheduleState.RELEARNING);
+      const appearances = sessionQueue.filter(id => id === drill.id).length;
+      if (inSteps && appearances <= LEARNING_STEP_SETTINGS.maxSessionRequeues) {
+          setSessionQueue(prev => [...prev, drill.id]);
+          logEvent('drill_requeued', { drillId: drill.id, state: newSchedule.state, step: newSchedule.step }, user.id);
+      }
+
+      const difficulty = calibrateDifficulty(drill.difficulty, user.difficultyCalibration);
+      const sourceTimeControl = rawGames.find(g => g.id === drill.sourceGameId)?.timeControl || 'unknown';
+      // Updates start from the decayed state, so a comeback after a long break moves mastery from where it now is
+      const now = Date.now();
+      const oldSkill = decaySkill(user.skills[drill.theme], now);
+      const newSkill = updateSkill(oldSkill, outcome, difficulty);
+
+      const motifSkills = { ...user.motifSkills };
+      (drill.motifs || []).forEach(motif => {
+          motifSkills[motif] = updateSkill(decaySkill(motifSkills[motif] || createInitialSkill(), now), outcome, difficulty);
+      });
+
+      // Stop condition: a run of failures locks the theme. Drills played in an already locked theme
+      // (the remedial set) do not extend the lock.
+      let lockState = { themeLocks: activeThemeLocks(user.themeLocks, now), recentOutcomes: recordThemeOutcome(user.recentOutcomes, drill.theme, outcome) };
+      const evaluation: DrillEvaluation = {
+          outcome,
+          skillDelta: parseFloat((newSkill.mastery - oldSkill.mastery).toFixed(2)),
+          isThemeLocked: !lockState.themeLocks[drill.theme] && learningLoop.checkStopCondition(drill.theme, lockState.recentOutcomes[drill.theme] || [], contract)
+      };
+      if (evaluation.isThemeLocked) {
+          lockState = lockTheme(lockState.themeLocks, lockState.recentOutcomes, drill.theme, now);
+          // The rest of this session skips the theme
+          setSessionQueue(prev => prev.filter((id, i) => i <= activeQueueIndex || drills.find(d => d.id === id)?.theme !== drill.theme));
+          logEvent('theme_locked', { theme: drill.theme, unlocksAt: lockState.themeLocks[drill.theme]?.unlocksAt }, user.id);
+          showToast(`${drill.theme} is locked for a while. Take a break or try the easier set.`, 'info');
+      }
+
+      setUser({
+          ...user,
+          skills: { ...user.skills, [drill.theme]: newSkill },
+          skillHistory: appendSkillSnapshot(user.skillHistory, drill.theme, newSkill, drill.id, outcome),
+          ratings: updateTrainingRating(user.ratings, sourceTimeControl, difficulty, outcome, now),
+          motifSkills,
+          difficultyCalibration: recordCalibrationOutcome(user.difficultyCalibration, drill.difficulty, outcome),
+          ...lockState
+      });
+      logEvent('drill_completed', { ...resultData, outcome, difficulty, seed: drill.seed, skillDelta: evaluation.skillDelta }, user.id);
+  };
+
+  const handleUnsuspend = (drillId: string) => {
+      const schedule = schedules[drillId];
+      if (!schedule) return;
+      setSchedules(prev => ({ ...prev, [drillId]: unsuspendSchedule(schedule, Date.now()) }));
+      setDrills(prev => prev.map(d => d.id === drillId ? untagLeech(d) : d));
+      logEvent('drill_unsuspended', { drillId }, user?.id);
+      showToast("Drill is back in your reviews.", 'success');
+  };
+
+  const handleDeleteDrill = (drillId: string) => {
+      setDrills(prev => prev.filter(d => d.id !== drillId));
+      setSchedules(prev => {
+          const next = { ...prev };
+          delete next[drillId];
+          return next;
+      });
+      logEvent('drill_deleted', { drillId }, user?.id);
+  };
+
+  const handleEditDrill = (drillId: string, changes: Pick<Drill, 'goal' | 'solutionSan'>) => {
+      // Alternatives and difficulty were derived from the old line
+      setDrills(prev => prev.map(d => d.id !== drillId ? d : {
+          ...d,
+          ...changes,
+          alternatives: undefined,
+          difficulty: estimateDifficulty(d.fen, changes.solutionSan)
+      }));
+      logEvent('drill_edited', { drillId }, user?.id);
+  };
+
+  const handlePractisePrerequisite = (drill: Drill) => {
+      setRemediationDrillId(null);
+      startSessionWithDrill(createPrerequisiteDrill(drill));
   };
 
-  const handleLogout = () => {
-      persistence.clearAll();
+  const handleSchedulerChange = (schedulerType: SchedulerType) => {
+      if (!user || (user.schedulerType || SchedulerType.SM2) === schedulerType) return;
+      setUser({ ...user, schedulerType });
+      setSchedules(prev => migrateSchedules(prev, schedulerType));
+      logEvent('scheduler_changed', { schedulerType }, user.id);
+      showToast(`Reviews now scheduled with ${SCHEDULER_LABELS[schedulerType].name}.`, 'success');
+  };
+
+  const handleOptimizeFsrs = () => {
+      if (!user) return;
+      const result = optimizeFsrsParameters(Object.values(schedules), user.fsrsParameters);
+      if (!result) {
+          showToast(`Need ${FSRS_SETTINGS.minReviewsToOptimize} repeat reviews to optimise.`, 'info');
+          return;
+      }
+      setUser({ ...user, fsrsParameters: result.parameters });
+      logEvent('fsrs_optimized', { lossBefore: result.lossBefore, lossAfter: result.lossAfter }, user.id);
+      showToast(`FSRS tuned to your history (log-loss ${result.lossBefore.toFixed(3)} → ${result.lossAfter.toFixed(3)}).`, 'success');
+  };
+
+  const handleLogout = async () => {
+      await persistence.clearAll();
       window.location.reload();
   };
 
@@ -252,7 +565,19 @@ export default function App() {
                   <p className="text-slate-400 text-sm">Pool: {eligibleCount} games</p>
               </header>
               <div className="w-full max-w-md space-y-4">
-                  <button onClick={() => handleModeSelect(TrainingMode.ANY)} className="w-full bg-gradient-to-r from-cyan-600 to-cyan-500 text-white p-4 rounded-xl shadow-lg text-left"><span className="font-bold text-lg">Any (Surprise Me)</span></button>
+                  <div className="bg-gradient-to-r from-cyan-600 to-cyan-500 rounded-xl shadow-lg overflow-hidden">
+                      <button onClick={() => handleModeSelect(TrainingMode.ANY)} className="w-full text-white p-4 text-left"><span className="font-bold text-lg">Adaptive Mix</span><div className="text-xs text-cyan-100">Weakest and stalest themes first.</div></button>
+                      <div className="bg-slate-950/40 px-4 py-3 space-y-1.5">
+                          {themeWeights.map(w => (
+                              <div key={w.theme} className="flex items-center gap-2 text-[11px]">
+                                  <span className="w-32 text-white truncate">{w.theme}</span>
+                                  <div className="flex-1 h-1.5 bg-black/30 rounded-full overflow-hidden"><div className="h-full bg-white/80" style={{ width: `${Math.round(w.share * 100)}%` }}></div></div>
+                                  <span className="w-8 text-right font-mono text-cyan-100">{Math.round(w.share * 100)}%</span>
+                                  <span className="w-40 text-cyan-100/70 truncate">{w.reason}</span>
+                              </div>
+                          ))}
+                      </div>
+                  </div>
                   <div className="grid grid-cols-1 gap-3">
                       <ModeCard title="Random Moment" desc="Jump into a random point." icon={<Icons.Target />} onClick={() => handleModeSelect(TrainingMode.RANDOM_MOMENT)} />
                       <ModeCard title="Critical Position" desc="Start from a pivotal moment." icon={<Icons.Brain />} onClick={() => handleModeSelect(TrainingMode.CRITICAL_POSITION)} />
@@ -262,7 +587,14 @@ export default function App() {
                               {[6, 10, 14].map(n => <button key={n} onClick={() => handleModeSelect(TrainingMode.START_FROM_MOVE, { startMove: n })} className="flex-1 bg-slate-800 hover:bg-slate-700 text-xs text-slate-300 py-2 rounded border border-slate-700">Move {n}</button>)}
                           </div>
                       </div>
-                      <ModeCard title="Endgame Finish" desc="Convert the endgame." icon={<Icons.Flag />} onClick={() => handleModeSelect(TrainingMode.ENDGAME_FINISH)} />
+                      <div className="bg-slate-900 border border-slate-800 p-4 rounded-xl">
+                          <button onClick={() => handleModeSelect(TrainingMode.ENDGAME_FINISH)} className="w-full text-left mb-2"><div className="font-bold text-white">Endgame Finish</div><div className="text-xs text-slate-400">Convert the endgame.</div></button>
+                          <div className="flex flex-wrap gap-2">
+                              {Object.values(EndgameType).map(type => <button key={type} onClick={() => handleModeSelect(TrainingMode.ENDGAME_FINISH, { endgameType: type })} className="bg-slate-800 hover:bg-slate-700 text-xs text-slate-300 px-2 py-2 rounded border border-slate-700">{type}</button>)}
+                          </div>
+                      </div>
+                      <ModeCard title="Opening Repertoire" desc="Drill the lines where you go astray." icon={<Icons.Brain />} onClick={() => handleModeSelect(TrainingMode.OPENING_REPERTOIRE)} />
+                      <ModeCard title="Time Scramble" desc="Decide fast where your clock ran low." icon={<Icons.Target />} onClick={() => handleModeSelect(TrainingMode.TIME_TROUBLE)} />
                   </div>
               </div>
           </div>
@@ -273,7 +605,7 @@ export default function App() {
   if (view === View.DASHBOARD) {
     return (
       <Layout>
-          <Dashboard user={user} onTrain={() => setView(View.MODE_SELECTION)} selectedTimeControls={selectedTimeControls} onToggleTimeControl={(tc) => setSelectedTimeControls(prev => prev.includes(tc) ? prev.filter(t => t !== tc) : [...prev, tc])} />
+          <Dashboard user={user} onTrain={() => setView(View.MODE_SELECTION)} onReview={handleReviewSession} dueCount={dueCount} recentAttempts={recentAttempts} weeklySummary={weeklySummary} drills={drills} themeLocks={themeLocks} onRemedial={handleRemedialSet} selectedTimeControls={selectedTimeControls} onToggleTimeControl={(tc) => setSelectedTimeControls(prev => prev.includes(tc) ? prev.filter(t => t !== tc) : [...prev, tc])} timeReport={timeReport} endgameReport={endgameReport} />
           <NavBar active="home" onNav={setView} />
       </Layout>
     );
@@ -286,13 +618,56 @@ export default function App() {
       return (
           <Layout>
                <div className="h-screen w-full overflow-hidden relative">
-                   <DrillPlayer key={currentDrill.id} drill={currentDrill} game={sourceGame} schedule={null} userSkills={user?.skills} userId={user?.id || 'anon'} onComplete={handleDrillComplete} onNext={() => { if (activeQueueIndex + 1 < sessionQueue.length) setActiveQueueIndex(prev => prev + 1); else { setSessionQueue([]); setView(View.DASHBOARD); }}} />
+                   <DrillPlayer key={`${currentDrill.id}-${activeQueueIndex}`} drill={currentDrill} game={sourceGame} schedule={null} userSkills={user?.skills} contract={contract} onCoachVerdict={(attemptId, verdict) => setAttempts(prev => attachCoachVerdict(prev, attemptId, verdict))} userId={user?.id || 'anon'} onComplete={handleDrillComplete} onNext={() => { if (remediationDrillId) setView(View.REMEDIATION); else if (activeQueueIndex + 1 < sessionQueue.length) setActiveQueueIndex(prev => prev + 1); else { setSessionQueue([]); setView(View.DASHBOARD); }}} />
                    <div className="absolute top-4 left-4 z-20"><button onClick={() => setView(View.DASHBOARD)} className="p-2 bg-slate-900/80 rounded-full text-slate-400">Back</button></div>
+                   {sessionQueue.length > 1 && <div className="absolute top-4 right-4 z-20 px-3 py-1 bg-slate-900/80 rounded-full text-xs font-mono text-slate-400">{activeQueueIndex + 1} / {sessionQueue.length}</div>}
                </div>
           </Layout>
       );
   }
 
+  if (view === View.REMEDIATION) {
+      const drill = drills.find(d => d.id === remediationDrillId);
+      if (!drill) return <Layout><div className="h-screen flex items-center justify-center"><button onClick={() => setView(View.DASHBOARD)} className="bg-slate-800 px-4 py-2 rounded">Back</button></div></Layout>;
+      return (
+          <Layout>
+              <LeechRemediation
+                  drill={drill}
+                  game={rawGames.find(g => g.id === drill.sourceGameId)}
+                  schedule={schedules[drill.id]}
+                  attempts={queryAttempts(attempts, { drillId: drill.id, limit: 10 })}
+                  onPractisePrerequisite={() => handlePractisePrerequisite(drill)}
+                  onUnsuspend={() => { handleUnsuspend(drill.id); setRemediationDrillId(null); setView(View.DASHBOARD); }}
+                  onBack={() => { setRemediationDrillId(null); setView(View.DASHBOARD); }}
+              />
+          </Layout>
+      );
+  }
+
+  if (view === View.FORECAST) {
+      return (
+          <Layout>
+              <WorkloadForecast schedules={schedules} scheduler={scheduler} skill={averageSkill} onBack={() => setView(View.PROFILE)} />
+          </Layout>
+      );
+  }
+
+  if (view === View.SUSPENDED) {
+      return (
+          <Layout>
+              <SuspendedDrills
+                  drills={suspendedDrills}
+                  schedules={schedules}
+                  onReview={(id) => { setRemediationDrillId(id); setView(View.REMEDIATION); }}
+                  onUnsuspend={handleUnsuspend}
+                  onEdit={handleEditDrill}
+                  onDelete={handleDeleteDrill}
+                  onBack={() => setView(View.PROFILE)}
+              />
+          </Layout>
+      );
+  }
+
   if (view === View.PROFILE) {
     return (
         <Layout>
@@ -303,6 +678,73 @@ export default function App() {
                     <h3 className="text-sm font-bold text-slate-400 mb-3 uppercase">Linked Accounts</h3>
                     <div className="space-y-3">{user?.accounts.map((acc, i) => (<div key={i} className="flex justify-between items-center bg-slate-900 p-3 rounded text-sm"><span className="capitalize text-slate-300">{acc.provider}</span><span className="text-cyan-400">{acc.username}</span></div>))}</div>
                 </div>
+                <div className="mb-8">
+                    <button onClick={() => setView(View.SUSPENDED)} className="w-full flex justify-between items-center bg-slate-900 p-3 rounded text-sm hover:bg-slate-800">
+                        <span className="text-slate-300">Suspended drills</span>
+                        <span className="text-amber-400 font-mono">{suspendedDrills.length}</span>
+                    </button>
+                    <button onClick={() => setView(View.FORECAST)} className="w-full flex justify-between items-center bg-slate-900 p-3 rounded text-sm hover:bg-slate-800 mt-2">
+                        <span className="text-slate-300">Workload forecast</span>
+                        <span className="text-cyan-400 font-mono">{dueCount} due</span>
+                    </button>
+                </div>
+                <div className="mb-8">
+                    <h3 className="text-sm font-bold text-slate-400 mb-3 uppercase">Review Sessions</h3>
+                    <div className="space-y-2">
+                        {REVIEW_OPTIONS.map(option => {
+                            const current = user?.reviewSettings?.[option.key] ?? REVIEW_SESSION_SETTINGS[option.key];
+                            return (
+                                <div key={option.key} className="flex justify-between items-center bg-slate-900 p-3 rounded text-sm">
+                                    <span className="text-slate-300">{option.label}</span>
+                                    <div className="flex gap-1">
+                                        {option.values.map(value => (
+                                            <button key={value} onClick={() => user && setUser({ ...user, reviewSettings: { ...user.reviewSettings, [option.key]: value } })} className={`px-2 py-1 rounded text-xs ${current === value ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}>{option.format(value)}</button>
+                                        ))}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+                <div className="mb-8">
+                    <h3 className="text-sm font-bold text-slate-400 mb-3 uppercase">Review Scheduler</h3>
+                    <div className="space-y-2">
+                        {Object.values(SchedulerType).map(type => (
+                            <button key={type} onClick={() => handleSchedulerChange(type)} className={`w-full text-left p-3 rounded border text-sm ${(user?.schedulerType || SchedulerType.SM2) === type ? 'bg-cyan-900/30 border-cyan-500/50' : 'bg-slate-900 border-slate-800 hover:bg-slate-800'}`}>
+                                <div className="font-bold text-white">{SCHEDULER_LABELS[type].name}</div>
+                                <div className="text-xs text-slate-400">{SCHEDULER_LABELS[type].description}</div>
+                            </button>
+                        ))}
+                    </div>
+                    {user?.schedulerType === SchedulerType.FSRS && (
+                        <div className="mt-3 flex justify-between items-center bg-slate-900 p-3 rounded text-xs">
+                            <span className="text-slate-400">{countRepeatReviews(Object.values(schedules))} repeat reviews{user.fsrsParameters ? ' · personal weights' : ' · default weights'}</span>
+                            <button onClick={handleOptimizeFsrs} className="bg-slate-800 hover:bg-slate-700 px-3 py-1 rounded text-cyan-400">Optimise</button>
+                        </div>
+                    )}
+                </div>
+                <div className="mb-8">
+                    <h3 className="text-sm font-bold text-slate-400 mb-3 uppercase">Learning Contract</h3>
+                    <div className="space-y-2">
+                        {(Object.keys(CONTRACT_PRESETS) as ContractPreset[]).map(preset => (
+                            <button key={preset} onClick={() => user && setUser({ ...user, contractPreset: preset, contractOverrides: undefined })} className={`w-full text-left p-3 rounded border text-sm ${(user?.contractPreset || 'balanced') === preset ? 'bg-cyan-900/30 border-cyan-500/50' : 'bg-slate-900 border-slate-800 hover:bg-slate-800'}`}>
+                                <div className="font-bold text-white">{CONTRACT_PRESETS[preset].label}</div>
+                                <div className="text-xs text-slate-400">{CONTRACT_PRESETS[preset].description}</div>
+                            </button>
+                        ))}
+                        {CONTRACT_OPTIONS.map(option => (
+                            <div key={option.key} className="flex justify-between items-center bg-slate-900 p-3 rounded text-sm">
+                                <span className="text-slate-300">{option.label}</span>
+                                <div className="flex gap-1">
+                                    {option.values.map(value => (
+                                        <button key={value} onClick={() => user && setUser({ ...user, contractOverrides: { ...user.contractOverrides, [option.key]: value } })} className={`px-2 py-1 rounded text-xs ${contract[option.key] === value ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}>{option.format(value)}</button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                        <div className="text-xs text-slate-500 px-1">Longer lines and harder drills get more time: +{contract.timePerExtraMoveMs / 1000}s per extra move, +{Math.round(contract.difficultyTimeFactor * 100)}% per difficulty level.</div>
+                    </div>
+                </div>
                 <NavBar active="profile" onNav={setView} />
             </div>
         </Layout>
@@ -311,6 +753,18 @@ export default function App() {
   return <div>Unknown</div>;
 }
 
+const CONTRACT_OPTIONS: { key: keyof LearningContractConfig; label: string; values: number[]; format: (v: number) => string }[] = [
+  { key: 'perfectTimeThresholdMs', label: 'Perfect within (one move)', values: [8000, 15000, 30000], format: v => `${v / 1000}s` },
+  { key: 'maxRetriesAllowed', label: 'Retries before failing', values: [0, 1, 2], format: v => `${v}` },
+  { key: 'tiltFailureLimit', label: 'Misses before a theme locks', values: [2, 3, 5], format: v => `${v}` },
+];
+
+const REVIEW_OPTIONS: { key: keyof ReviewSessionSettings; label: string; values: number[]; format: (v: number) => string }[] = [
+  { key: 'sessionSize', label: 'Drills per session', values: [5, 10, 20], format: v => `${v}` },
+  { key: 'dailyReviewCap', label: 'Daily review cap', values: [20, 50, 100], format: v => `${v}` },
+  { key: 'newDrillRatio', label: 'New drills', values: [0, 0.2, 0.4], format: v => `${Math.round(v * 100)}%` },
+];
+
 const ModeCard = ({ title, desc, icon, onClick }: any) => (<button onClick={onClick} className="w-full bg-slate-900 border border-slate-800 p-4 rounded-xl hover:bg-slate-800 text-left"><div className="flex items-start space-x-3"><div className="bg-slate-800 p-2 rounded-lg text-cyan-400">{icon}</div><div><div className="font-bold text-white">{title}</div><div className="text-xs text-slate-400">{desc}</div></div></div></button>);
 const ImportForm = ({ provider, label, onSubmit }: any) => { const [val, setVal] = useState(""); return (<form onSubmit={(e) => { e.preventDefault(); onSubmit(val, provider); }} className="relative"><input type="text" placeholder="Username" value={val} onChange={e => setVal(e.target.value)} className="w-full bg-slate-950 border border-slate-700 rounded-lg py-3 px-4 text-white" /><button type="submit" disabled={!val} className="absolute right-1 top-1 bottom-1 bg-slate-800 px-4 rounded-md text-xs">{label}</button></form>); };
 const NavBar = ({ active, onNav }: any) => (<nav className="fixed bottom-0 left-0 right-0 bg-slate-900/90 border-t border-slate-800 pb-safe pt-2 px-6 flex justify-around z-50"><NavBtn icon={<Icons.Brain />} label="Home" active={active === 'home'} onClick={() => onNav(View.DASHBOARD)} /><NavBtn icon={<Icons.User />} label="Profile" active={active === 'profile'} onClick={() => onNav(View.PROFILE)} /></nav>);
@@ -1,9 +1,12 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { Chessboard } from 'react-chessboard';
+import { Chess, Square } from 'chess.js';
+
+export type PromotionPiece = 'q' | 'r' | 'b' | 'n';
 
 interface BoardProps {
   fen: string;
-  onPieceDrop: (source: string, target: string) => boolean;
+  onPieceDrop: (source: string, target: string, promotion?: PromotionPiece) => boolean;
   visualState?: 'neutral' | 'correct' | 'incorrect';
   isInteractive?: boolean;
   orientation?: 'white' | 'black';
@@ -16,6 +19,41 @@ const Board: React.FC<BoardProps> = ({
   isInteractive = true,
   orientation = 'white'
 }) => {
+  // A pawn drop on the last rank waits here until the user picks the piece
+  const [pendingPromotion, setPendingPromotion] = useState<{ source: string; target: string } | null>(null);
+
+  useEffect(() => setPendingPromotion(null), [fen]);
+
+  const isPromotionMove = (source: string, target: string): boolean => {
+    try {
+      return new Chess(fen)
+        .moves({ square: source as Square, verbose: true })
+        .some(m => m.to === target && !!m.promotion);
+    } catch (e) {
+      return false;
+    }
+  };
+
+  const handlePieceDrop = (source: string, target: string): boolean => {
+    if (isPromotionMove(source, target)) {
+      setPendingPromotion({ source, target });
+      return false; // Snap back until a piece is chosen
+    }
+    return onPieceDrop(source, target);
+  };
+
+  const handlePromotionSelect = (piece: PromotionPiece) => {
+    if (!pendingPromotion) return;
+    const { source, target } = pendingPromotion;
+    setPendingPromotion(null);
+    onPieceDrop(source, target, piece);
+  };
+
+  const promotionColor = fen.split(' ')[1] === 'b' ? 'b' : 'w';
+  const PROMOTION_GLYPHS: Record<'w' | 'b', Record<PromotionPiece, string>> = {
+    w: { q: '♕', r: '♖', b: '♗', n: '♘' },
+    b: { q: '♛', r: '♜', b: '♝', n: '♞' },
+  };
 
   const getBorderColor = () => {
     switch (visualState) {
@@ -33,14 +71,34 @@ const Board: React.FC<BoardProps> = ({
       <Chessboard 
         id="DrillBoard"
         position={safePosition} 
-        onPieceDrop={onPieceDrop}
+        onPieceDrop={handlePieceDrop}
         boardOrientation={orientation}
         customDarkSquareStyle={{ backgroundColor: '#334155' }}
         customLightSquareStyle={{ backgroundColor: '#94a3b8' }}
-        arePiecesDraggable={isInteractive}
+        arePiecesDraggable={isInteractive && !pendingPromotion}
         animationDuration={200}
       />
       
+      {pendingPromotion && (
+        <div className="absolute inset-0 bg-slate-900/70 backdrop-blur-sm flex items-center justify-center z-20">
+          <div className="bg-slate-800 border border-slate-700 rounded-xl p-3 shadow-xl">
+            <div className="text-xs uppercase tracking-widest text-slate-400 font-semibold text-center mb-2">Promote to</div>
+            <div className="flex gap-2">
+              {(['q', 'r', 'b', 'n'] as PromotionPiece[]).map(piece => (
+                <button
+                  key={piece}
+                  onClick={() => handlePromotionSelect(piece)}
+                  className="w-14 h-14 rounded-lg bg-slate-700 hover:bg-cyan-700 text-4xl text-white transition-colors"
+                >
+                  {PROMOTION_GLYPHS[promotionColor][piece]}
+                </button>
+              ))}
+            </div>
+            <button onClick={() => setPendingPromotion(null)} className="w-full mt-2 text-xs text-slate-400 hover:text-white">Cancel</button>
+          </div>
+        </div>
+      )}
+
       {/* Overlay for incorrect state - MUST NOT BLOCK CLICKS when hidden */}
       {visualState === 'incorrect' && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-10">
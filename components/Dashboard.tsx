@@ -1,12 +1,27 @@
-import React, { useMemo } from 'react';
-import { UserProfile, Theme, TimeControl } from '../types';
-import { getRecentLogs } from '../services/logger';
+import React, { useMemo, useState } from 'react';
+import { UserProfile, Theme, TimeControl, TacticalMotif, SkillState, EndgameType, TimeControlRating, ThemeLock, Attempt, Drill, DrillOutcome } from '../types';
+import { TimeManagementSummary, GamePhase } from '../services/clockService';
+import { EndgameRecord } from '../services/endgameService';
+import { weekOverWeekDelta } from '../services/skillHistoryService';
+import { decaySkills } from '../services/skillService';
+import { decayRatings } from '../services/ratingService';
+import { AttemptSummary } from '../services/attemptService';
+import { SkillProgressChart } from './SkillProgressChart';
 
 interface DashboardProps {
   user: UserProfile | null;
   onTrain: () => void;
+  onReview?: () => void;
+  dueCount?: number;
+  recentAttempts?: Attempt[]; // Newest first
+  weeklySummary?: AttemptSummary;
+  drills?: Drill[];
+  themeLocks?: Partial<Record<Theme, ThemeLock>>;
+  onRemedial?: (theme: Theme) => void;
   selectedTimeControls: TimeControl[];
   onToggleTimeControl: (tc: TimeControl) => void;
+  timeReport?: TimeManagementSummary;
+  endgameReport?: Partial<Record<EndgameType, EndgameRecord>>;
 }
 
 const Icons = {
@@ -18,20 +33,53 @@ const Icons = {
 export const Dashboard: React.FC<DashboardProps> = ({ 
   user, 
   onTrain, 
+  onReview,
+  dueCount = 0,
+  recentAttempts = [],
+  weeklySummary,
+  drills = [],
+  themeLocks = {},
+  onRemedial,
   selectedTimeControls, 
-  onToggleTimeControl 
+  onToggleTimeControl,
+  timeReport,
+  endgameReport
 }) => {
   
-  const recentLogs = getRecentLogs().filter(l => l.event === 'drill_completed').slice(0, 5);
-
   const themes = Object.values(Theme);
+  const [chartTheme, setChartTheme] = useState<Theme>(Theme.TACTICS);
+
+  const weeklyDeltas = useMemo(() => {
+    const now = Date.now();
+    return themes.reduce((acc, theme) => {
+      acc[theme] = weekOverWeekDelta(user?.skillHistory?.[theme], now);
+      return acc;
+    }, {} as Record<Theme, number | null>);
+  }, [user?.skillHistory]);
+  // Skills as they stand today, after decay for the time since each was practised
+  const skills = useMemo(() => user ? decaySkills(user.skills, Date.now()) : null, [user?.skills]);
+
   const radarData = useMemo(() => {
-    if (!user) return [];
+    if (!skills) return [];
     return themes.map(theme => ({
       theme,
-      value: user.skills[theme]?.mastery || 0
+      value: skills[theme]?.mastery || 0
     }));
-  }, [user, themes]);
+  }, [skills, themes]);
+
+  // Weakest motifs first; only those the user has actually met in drills
+  const motifWeaknesses = useMemo(() => {
+    if (!user?.motifSkills) return [];
+    return (Object.entries(decaySkills(user.motifSkills, Date.now())) as [TacticalMotif, SkillState][])
+      .sort((a, b) => a[1].mastery - b[1].mastery)
+      .slice(0, 4);
+  }, [user]);
+
+  const lockedThemes = (Object.entries(themeLocks) as [Theme, ThemeLock][]).sort((a, b) => a[1].unlocksAt - b[1].unlocksAt);
+
+  // Most played time controls first; ratings are on the Lichess scale
+  const ratingRows = useMemo(() => (Object.entries(decayRatings(user?.ratings, Date.now())) as [TimeControl, TimeControlRating][])
+    .sort((a, b) => (b[1].game?.samples || 0) - (a[1].game?.samples || 0)), [user?.ratings]);
 
   const getCoordinatesForAngle = (angle: number, value: number) => {
     const radius = 80; 
@@ -83,6 +131,11 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 </p>
                 <div className="flex items-center gap-3">
                     <button onClick={onTrain} className="bg-white text-blue-900 px-8 py-3 rounded-xl font-bold shadow-lg hover:bg-cyan-50 transition-colors">Start Session</button>
+                    {onReview && (
+                        <button onClick={onReview} className="bg-black/20 text-white px-4 py-3 rounded-xl font-bold hover:bg-black/30 transition-colors">
+                            Review due <span className="ml-1 px-2 py-0.5 rounded-full bg-white/20 text-xs">{dueCount}</span>
+                        </button>
+                    )}
                     <div className="flex bg-black/20 rounded-lg p-1">
                         {['blitz', 'rapid', 'classical'].map(tc => {
                             const active = selectedTimeControls.includes(tc as TimeControl);
@@ -109,14 +162,25 @@ export const Dashboard: React.FC<DashboardProps> = ({
             <h3 className="text-lg font-bold text-white flex items-center gap-2"><Icons.Trend /> Skill Breakdown</h3>
             <div className="grid grid-cols-1 gap-4">
                 {themes.map((theme) => {
-                    const skill = user?.skills[theme];
+                    const skill = skills?.[theme];
                     const mastery = Math.round(skill?.mastery || 0);
+                    const faded = Math.round(user?.skills[theme]?.mastery || 0) - mastery;
+                    const delta = weeklyDeltas[theme];
                     return (
                         <div key={theme} className="bg-slate-900 border border-slate-800 rounded-xl p-4 flex items-center justify-between group hover:border-slate-700 transition-colors">
                             <div className="flex-1">
                                 <div className="flex justify-between mb-2">
-                                    <span className="font-medium text-slate-200">{theme}</span>
-                                    <span className="text-sm font-bold text-cyan-400">{mastery}</span>
+                                    <span className="font-medium text-slate-200">
+                                        {theme}
+                                        {themeLocks[theme] && <span className="ml-2 text-[10px]" title="Locked after repeated misses">🔒</span>}
+                                        {faded > 0 && <span className="ml-2 text-[10px] text-amber-400/80" title={`${faded} points faded since last practice`}>fading</span>}
+                                    </span>
+                                    <span className="text-sm font-bold text-cyan-400">
+                                        {delta !== null && delta !== 0 && (
+                                            <span className={`mr-2 text-xs font-mono ${delta > 0 ? 'text-emerald-400' : 'text-red-400'}`} title="Change over the last 7 days">{delta > 0 ? '+' : ''}{delta}</span>
+                                        )}
+                                        {mastery}
+                                    </span>
                                 </div>
                                 <div className="h-2 w-full bg-slate-800 rounded-full overflow-hidden">
                                     <div className="h-full bg-gradient-to-r from-cyan-600 to-cyan-400" style={{ width: `${mastery}%` }}></div>
@@ -126,16 +190,127 @@ export const Dashboard: React.FC<DashboardProps> = ({
                     );
                 })}
             </div>
+            <div className="bg-slate-900 border border-slate-800 rounded-xl p-4">
+                <div className="flex justify-between items-center mb-3">
+                    <h3 className="text-sm font-bold text-slate-400 uppercase">Progress</h3>
+                    <div className="flex gap-1">
+                        {themes.map(theme => (
+                            <button key={theme} onClick={() => setChartTheme(theme)} className={`px-2 py-1 rounded text-[10px] ${chartTheme === theme ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}>{theme}</button>
+                        ))}
+                    </div>
+                </div>
+                <SkillProgressChart series={user?.skillHistory?.[chartTheme] || []} />
+            </div>
         </div>
         <div className="space-y-6">
+            {lockedThemes.length > 0 && (
+                <>
+                    <h3 className="text-lg font-bold text-white">Taking a Break</h3>
+                    <div className="bg-slate-900 border border-amber-900/60 rounded-xl p-4 space-y-3 text-sm">
+                        {lockedThemes.map(([theme, lock]) => (
+                            <div key={theme} className="flex justify-between items-center gap-3">
+                                <div>
+                                    <div className="text-slate-200 font-medium">🔒 {theme}</div>
+                                    <div className="text-xs text-slate-500">Several misses in a row. Unlocks at {new Date(lock.unlocksAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.</div>
+                                </div>
+                                {onRemedial && (
+                                    <button onClick={() => onRemedial(theme)} className="shrink-0 bg-slate-800 hover:bg-slate-700 text-amber-300 px-3 py-1.5 rounded-lg text-xs font-bold">Easier set</button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+            {ratingRows.length > 0 && (
+                <>
+                    <h3 className="text-lg font-bold text-white">Ratings</h3>
+                    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3 text-sm">
+                        <div className="grid grid-cols-3 text-[10px] uppercase tracking-wider text-slate-500">
+                            <span></span><span className="text-right">Games</span><span className="text-right">Training</span>
+                        </div>
+                        {ratingRows.map(([tc, r]) => (
+                            <div key={tc} className="grid grid-cols-3 items-center">
+                                <span className="capitalize text-slate-300">{tc}</span>
+                                <span className="text-right font-mono text-slate-300">{r.game ? <>{r.game.rating}<span className="text-xs text-slate-500"> ±{r.game.deviation}</span></> : '–'}</span>
+                                <span className="text-right font-mono text-cyan-400" title={`${r.training.samples} drills`}>{r.training.rating}<span className="text-xs text-slate-500"> ±{r.training.deviation}</span></span>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+            {motifWeaknesses.length > 0 && (
+                <>
+                    <h3 className="text-lg font-bold text-white">Motif Weaknesses</h3>
+                    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+                        {motifWeaknesses.map(([motif, skill]) => (
+                            <div key={motif} className="flex justify-between items-center text-sm">
+                                <span className="text-slate-300">{motif}</span>
+                                <span className={`font-bold ${skill.mastery < 40 ? 'text-red-400' : 'text-cyan-400'}`}>{Math.round(skill.mastery)}</span>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+            {timeReport && timeReport.gamesAnalyzed > 0 && (
+                <>
+                    <h3 className="text-lg font-bold text-white">Time Management</h3>
+                    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-4 text-sm">
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <div className="text-2xl font-mono font-bold text-amber-400">{Math.round(100 * timeReport.gamesWithTimeTrouble / timeReport.gamesAnalyzed)}%</div>
+                                <div className="text-xs text-slate-500">games in time trouble</div>
+                            </div>
+                            <div>
+                                <div className="text-2xl font-mono font-bold text-red-400">{timeReport.longThinkBlunders}</div>
+                                <div className="text-xs text-slate-500">long thinks ending in a mistake</div>
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            {(['opening', 'middlegame', 'endgame'] as GamePhase[]).map(phase => {
+                                const p = timeReport.phases[phase];
+                                const avg = p.moves ? p.seconds / p.moves : 0;
+                                return (
+                                    <div key={phase} className="flex justify-between items-center">
+                                        <span className="capitalize text-slate-300">{phase}</span>
+                                        <span className="font-mono text-cyan-400">{avg.toFixed(1)}s / move</span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <div className="text-xs text-slate-500">Based on {timeReport.gamesAnalyzed} games with clock data.</div>
+                    </div>
+                </>
+            )}
+            {endgameReport && Object.keys(endgameReport).length > 0 && (
+                <>
+                    <h3 className="text-lg font-bold text-white">Endgame Conversion</h3>
+                    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-2 text-sm">
+                        {(Object.entries(endgameReport) as [EndgameType, EndgameRecord][]).map(([type, r]) => {
+                            const rate = Math.round(100 * (r.wins + r.draws / 2) / r.games);
+                            return (
+                                <div key={type} className="flex justify-between items-center">
+                                    <span className="text-slate-300">{type}</span>
+                                    <span className="font-mono"><span className={rate < 50 ? 'text-red-400' : 'text-emerald-400'}>{rate}%</span> <span className="text-xs text-slate-500">({r.games})</span></span>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </>
+            )}
             <h3 className="text-lg font-bold text-white">Recent Activity</h3>
+            {weeklySummary && weeklySummary.attempts > 0 && (
+                <div className="text-xs text-slate-400 -mt-4">This week: {weeklySummary.solved}/{weeklySummary.attempts} solved ({Math.round(weeklySummary.solveRate * 100)}%), {Math.round(weeklySummary.averageDurationMs / 1000)}s on average</div>
+            )}
             <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 min-h-[300px]">
-                {recentLogs.length === 0 ? <p className="text-slate-500 text-sm text-center py-10">No drills completed.</p> : (
+                {recentAttempts.length === 0 ? <p className="text-slate-500 text-sm text-center py-10">No drills completed.</p> : (
                     <div className="space-y-4">
-                        {recentLogs.map((log, i) => (
-                            <div key={i} className="flex items-start gap-3 pb-3 border-b border-slate-800/50 last:border-0">
-                                <div className={`mt-1 w-2 h-2 rounded-full shrink-0 ${log.data.outcome === 'FAILURE' ? 'bg-red-500' : 'bg-emerald-500'}`}></div>
-                                <div><div className="text-sm text-slate-300 font-medium">Drill Completed</div><div className="text-xs text-slate-500">{log.data.outcome}</div></div>
+                        {recentAttempts.map(attempt => (
+                            <div key={attempt.id} className="flex items-start gap-3 pb-3 border-b border-slate-800/50 last:border-0">
+                                <div className={`mt-1 w-2 h-2 rounded-full shrink-0 ${attempt.outcome === DrillOutcome.FAILURE ? 'bg-red-500' : 'bg-emerald-500'}`}></div>
+                                <div className="min-w-0">
+                                    <div className="text-sm text-slate-300 font-medium truncate">{drills.find(d => d.id === attempt.drillId)?.goal || attempt.theme}</div>
+                                    <div className="text-xs text-slate-500">{attempt.outcome} · {Math.round(attempt.durationMs / 1000)}s{attempt.hintUsed ? ' · hint' : ''} · {new Date(attempt.timestamp).toLocaleDateString()}</div>
+                                </div>
                             </div>
                         ))}
                     </div>
@@ -1,21 +1,33 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Chess } from 'chess.js';
-import { Drill, CoachResponse, DrillOutcome, DrillSchedule, ChessGame } from '../types';
-import Board from './Board';
+import { Drill, CoachResponse, DrillOutcome, DrillSchedule, ChessGame, LearningContractConfig } from '../types';
+import Board, { PromotionPiece } from './Board';
 import { generateCoachResponse } from '../services/geminiService';
-import { learningLoop } from '../services/learningLoop';
+import { CONTRACT_CONFIG, countRetries, effectiveContract, learningLoop } from '../services/learningLoop';
 
 interface DrillPlayerProps {
   drill: Drill;
   game?: ChessGame;
   schedule: DrillSchedule | null;
   userSkills: any;
+  contract?: LearningContractConfig; // The user's contract; scaled to this drill before grading
   onComplete: (outcome: DrillOutcome, resultData: any) => void;
+  onCoachVerdict?: (attemptId: string, verdict: CoachResponse['verdict']) => void;
   onNext: () => void;
   userId: string;
 }
 
-export const DrillPlayer: React.FC<DrillPlayerProps> = ({ drill, game, onComplete, onNext }) => {
+// Pause before the opponent's reply is played, so the user sees their own move land first.
+const OPPONENT_REPLY_DELAY_MS = 600;
+
+const getSideToMove = (fen: string): 'w' | 'b' => fen.split(' ')[1] === 'b' ? 'b' : 'w';
+
+// Placement, side to move, castling and en passant: equal keys are the same position whatever the move order
+const positionKey = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+
+const stripCheck = (san: string) => san.replace(/[+#]/g, '');
+
+export const DrillPlayer: React.FC<DrillPlayerProps> = ({ drill, game, contract, onComplete, onCoachVerdict, onNext }) => {
   // Use Lazy Initialization for state to ensure we start with the Drill's FEN immediately
   // This prevents the "flash of start position" or stuck start position.
   const [chessInstance, setChessInstance] = useState<Chess | null>(() => {
@@ -42,8 +54,42 @@ export const DrillPlayer: React.FC<DrillPlayerProps> = ({ drill, game, onComplet
   const [coachError, setCoachError] = useState<string | null>(null);
   const [hintUsed, setHintUsed] = useState(false);
   const [fatalError, setFatalError] = useState<string | null>(null);
+  const drillContract = useMemo(() => effectiveContract(contract || CONTRACT_CONFIG, drill), [contract, drill]);
+  // Index into `line` of the next move to be played (by either side)
+  const [plyIndex, setPlyIndex] = useState(0);
+  // The line being followed: the main solution, or an accepted alternative's continuation
+  const [line, setLine] = useState<string[]>(drill.solutionSan);
+  const [usedAlternative, setUsedAlternative] = useState(false);
   
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const replyTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Every move tried and the thinking time before it, for the attempt history
+  const moveLogRef = useRef<{ moves: string[]; timesMs: number[] }>({ moves: [], timesMs: [] });
+  const lastMoveAtRef = useRef(Date.now());
+  const attemptIdRef = useRef<string | null>(null);
+
+  // The solver is whoever is on move in the drill's start position; the solution alternates from there.
+  const solverColor = getSideToMove(drill.fen);
+
+  // Position keys after each main-line ply, used to spot an alternative transposing back into it
+  const mainLineKeys = useMemo(() => {
+    const keys: string[] = [];
+    try {
+      const board = new Chess(drill.fen);
+      for (const san of drill.solutionSan) {
+        board.move(san);
+        keys.push(positionKey(board.fen()));
+      }
+    } catch (e) {
+      // A corrupt tail just means fewer transpositions are recognised
+    }
+    return keys;
+  }, [drill.id]);
+
+  useEffect(() => () => {
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    if (replyTimeoutRef.current) clearTimeout(replyTimeoutRef.current);
+  }, []);
 
   // Update board if drill prop changes completely (e.g. Next Drill)
   useEffect(() => {
@@ -54,6 +100,9 @@ export const DrillPlayer: React.FC<DrillPlayerProps> = ({ drill, game, onComplet
         setChessInstance(newGame);
         setFen(newGame.fen());
         setStartTime(Date.now());
+        moveLogRef.current = { moves: [], timesMs: [] };
+        lastMoveAtRef.current = Date.now();
+        attemptIdRef.current = null;
         setFatalError(null);
         setVisualState('neutral');
         setOutcome(null);
@@ -64,6 +113,10 @@ export const DrillPlayer: React.FC<DrillPlayerProps> = ({ drill, game, onComplet
         setIsProcessing(false);
         setIsCoaching(false);
         setHintUsed(false);
+        setPlyIndex(0);
+        setLine(drill.solutionSan);
+        setUsedAlternative(false);
+        if (replyTimeoutRef.current) clearTimeout(replyTimeoutRef.current);
     } catch (e) {
         console.error("Board Init Error", e);
         setFatalError(`Error loading position: ${drill.fen}`);
@@ -75,6 +128,7 @@ export const DrillPlayer: React.FC<DrillPlayerProps> = ({ drill, game, onComplet
       try {
           const response = await generateCoachResponse(drill, moveSan, isCorrect, finalFen);
           setCoachMsg(response);
+          if (attemptIdRef.current) onCoachVerdict?.(attemptIdRef.current, response.verdict);
       } catch (e) {
           setCoachError("AI Coach unavailable (Check API Key)");
       } finally {
@@ -82,7 +136,7 @@ export const DrillPlayer: React.FC<DrillPlayerProps> = ({ drill, game, onComplet
       }
   };
 
-  const onPieceDrop = (source: string, target: string) => {
+  const onPieceDrop = (source: string, target: string, promotion: PromotionPiece = 'q') => {
     if (outcome || isProcessing || !chessInstance) return false;
 
     // Speculate logic: create temp instance to check validity
@@ -90,65 +144,123 @@ export const DrillPlayer: React.FC<DrillPlayerProps> = ({ drill, game, onComplet
     let move;
     
     try {
-      move = tempGame.move({ from: source, to: target, promotion: 'q' });
+      move = tempGame.move({ from: source, to: target, promotion });
     } catch (e) { 
         return false; 
     }
 
     if (!move) return false;
 
-    const currentPly = 0; // Relative to the drill start, we are at 0 if we assume single move drill mostly?
-    // Actually, we should track ply relative to drill start.
-    // However, drill.solutionSan is an array. 
-    // If we support multi-move drills, we need to track index.
-    
-    // For now, let's determine current index by comparing FENs or just maintain a step counter?
-    // Simplest is to assume drills are short and use internal history relative to start?
-    // But chessInstance history accumulates.
-    // Wait, if we loaded from FEN, history is empty in chess.js!
-    // So history().length is exactly the number of moves user made.
-    const userMadeMovesCount = chessInstance.history().length;
-    
-    const expectedSan = drill.solutionSan[userMadeMovesCount]; 
+    const expectedSan = line[plyIndex];
     
     if (!expectedSan) {
         setFeedback("End of drill.");
         return false;
     }
 
-    // Clean SAN (remove checks/mates for comparison)
-    const moveClean = move.san.replace(/[+#]/g, '');
-    const expectedClean = expectedSan.replace(/[+#]/g, '');
-    const isCorrect = moveClean === expectedClean;
+    // Clean SAN (remove checks/mates for comparison); "=N" stays, so the promotion piece must match
+    const moveClean = stripCheck(move.san);
+    const isCorrect = moveClean === stripCheck(expectedSan);
+    // Alternatives are defined against the main line only
+    const alternative = line === drill.solutionSan && !isCorrect
+        ? drill.alternatives?.[plyIndex]?.find(alt => stripCheck(alt.san) === moveClean)
+        : undefined;
 
-    if (isCorrect) {
-       // Apply move to real state
-       const nextGame = new Chess(chessInstance.fen());
-       nextGame.move({ from: source, to: target, promotion: 'q' });
-       setChessInstance(nextGame);
-       setFen(nextGame.fen());
-       
-       // Check if this was the last move in the solution sequence
-       if (userMadeMovesCount + 1 >= drill.solutionSan.length) {
-           handleSuccess(nextGame.fen(), move.san);
-       } else {
-           setFeedback("✅ Correct! Keep going...");
-       }
-       return true;
-    } else {
+    const movedAt = Date.now();
+    moveLogRef.current.moves.push(move.san);
+    moveLogRef.current.timesMs.push(movedAt - lastMoveAtRef.current);
+    lastMoveAtRef.current = movedAt;
+
+    if (!isCorrect && !alternative) {
        handleFailure(move.san);
        return false; // Snap back
     }
+
+    // Apply move to real state
+    const nextGame = new Chess(chessInstance.fen());
+    nextGame.move({ from: source, to: target, promotion });
+    setChessInstance(nextGame);
+    setFen(nextGame.fen());
+
+    if (isCorrect) {
+        continueLine(nextGame, line, plyIndex + 1, move.san, usedAlternative);
+        return true;
+    }
+
+    setUsedAlternative(true);
+    // A different move order that reaches a main-line position simply rejoins it
+    const transposedAt = mainLineKeys.indexOf(positionKey(nextGame.fen()), plyIndex);
+    if (transposedAt !== -1) {
+        setLine(drill.solutionSan);
+        continueLine(nextGame, drill.solutionSan, transposedAt + 1, move.san, true);
+    } else if (alternative!.continuation?.length) {
+        const altLine = [...line.slice(0, plyIndex), move.san, ...alternative!.continuation];
+        setLine(altLine);
+        continueLine(nextGame, altLine, plyIndex + 1, move.san, true);
+    } else {
+        setPlyIndex(plyIndex + 1);
+        handleSuccess(nextGame.fen(), move.san, true);
+    }
+    return true;
   };
 
-  const handleSuccess = (finalFen: string, lastMoveSan: string) => {
+  // After a solver move: finish, or play the opponent's reply from `activeLine`
+  const continueLine = (current: Chess, activeLine: string[], replyIndex: number, lastSolverSan: string, viaAlternative: boolean) => {
+    // Done once no solver move remains (a trailing opponent reply is not worth waiting for)
+    if (replyIndex + 1 >= activeLine.length) {
+        setPlyIndex(replyIndex);
+        handleSuccess(current.fen(), lastSolverSan, viaAlternative);
+    } else {
+        setFeedback(viaAlternative ? "✅ That works too! Keep going..." : "✅ Correct! Keep going...");
+        playOpponentReply(current, activeLine, replyIndex, lastSolverSan, viaAlternative);
+    }
+  };
+
+  const playOpponentReply = (current: Chess, activeLine: string[], replyIndex: number, lastSolverSan: string, viaAlternative: boolean) => {
+    setIsProcessing(true);
+    setPlyIndex(replyIndex);
+
+    replyTimeoutRef.current = setTimeout(() => {
+        const replyGame = new Chess(current.fen());
+        try {
+            replyGame.move(activeLine[replyIndex]);
+        } catch (e) {
+            // Corrupt solution line: the solver already found everything we can verify.
+            console.warn(`[DrillPlayer] Invalid opponent reply ${activeLine[replyIndex]} in ${drill.id}`);
+            setIsProcessing(false);
+            handleSuccess(current.fen(), lastSolverSan, viaAlternative);
+            return;
+        }
+        setChessInstance(replyGame);
+        setFen(replyGame.fen());
+        setPlyIndex(replyIndex + 1);
+        setIsProcessing(false);
+        lastMoveAtRef.current = Date.now();
+    }, OPPONENT_REPLY_DELAY_MS);
+  };
+
+  // Reports the outcome together with what the attempt history records
+  const completeAttempt = (finalOutcome: DrillOutcome, extra: Record<string, any> = {}) => {
+    attemptIdRef.current = `${drill.id}-${Date.now()}`;
+    onComplete(finalOutcome, {
+        drillId: drill.id,
+        attemptId: attemptIdRef.current,
+        durationMs: Date.now() - startTime,
+        userMoves: [...moveLogRef.current.moves],
+        moveTimesMs: [...moveLogRef.current.timesMs],
+        hintUsed,
+        ...extra
+    });
+  };
+
+  const handleSuccess = (finalFen: string, lastMoveSan: string, viaAlternative: boolean = false) => {
     const durationMs = Date.now() - startTime;
-    const finalOutcome = learningLoop.evaluateAttempt(true, durationMs, hintUsed ? 1 : retryCount);
+    const finalOutcome = learningLoop.evaluateAttempt(true, durationMs, countRetries(retryCount, hintUsed), viaAlternative, drillContract);
     setOutcome(finalOutcome);
     setVisualState('correct');
     setFeedback(learningLoop.getOutcomeFeedback(finalOutcome));
     
-    onComplete(finalOutcome, { drillId: drill.id, durationMs, attempts: retryCount + 1 });
+    completeAttempt(finalOutcome, { durationMs, attempts: retryCount + 1, usedAlternative: viaAlternative });
     triggerCoach(finalFen, lastMoveSan, true);
   };
 
@@ -164,10 +276,10 @@ export const DrillPlayer: React.FC<DrillPlayerProps> = ({ drill, game, onComplet
   };
 
   const handleGiveUp = () => {
-      const solution = drill.solutionSan.join(' ');
+      const solution = line.join(' ');
       setFeedback(`Solution: ${solution}`);
       setOutcome(DrillOutcome.FAILURE);
-      onComplete(DrillOutcome.FAILURE, { drillId: drill.id });
+      completeAttempt(DrillOutcome.FAILURE);
       triggerCoach(fen, "Resigned", false);
   };
 
@@ -179,7 +291,7 @@ export const DrillPlayer: React.FC<DrillPlayerProps> = ({ drill, game, onComplet
       </div>
   );
 
-  const turnColor = chessInstance?.turn() === 'w' ? 'White' : 'Black';
+  const turnColor = solverColor === 'w' ? 'White' : 'Black';
 
   return (
     <div className="flex flex-col h-full bg-slate-950">
@@ -188,7 +300,10 @@ export const DrillPlayer: React.FC<DrillPlayerProps> = ({ drill, game, onComplet
              <div className="text-xs text-cyan-400 font-bold uppercase tracking-wider">{drill.theme}</div>
              <div className="text-[10px] text-slate-400 truncate max-w-[200px]">{game ? `${game.white} vs ${game.black}` : 'Drill'}</div>
          </div>
-         <div className="text-xs font-mono text-slate-500">{drill.goal}</div>
+         <div className="flex flex-col items-end">
+             <div className="text-xs font-mono text-slate-500">{drill.goal}</div>
+             <div className="text-[10px] text-slate-600" title="Solve within this time for a perfect grade">⚡ {Math.round(drillContract.perfectTimeThresholdMs / 1000)}s</div>
+         </div>
       </div>
 
       <div className="flex-1 relative flex flex-col items-center justify-center p-4 min-h-0 overflow-hidden">
@@ -198,7 +313,7 @@ export const DrillPlayer: React.FC<DrillPlayerProps> = ({ drill, game, onComplet
                    fen={fen} 
                    onPieceDrop={onPieceDrop}
                    visualState={visualState}
-                   orientation={chessInstance?.turn() === 'b' ? 'black' : 'white'}
+                   orientation={(game?.userColor ?? solverColor) === 'b' ? 'black' : 'white'}
                    isInteractive={!outcome && !isProcessing}
                />
                
@@ -244,7 +359,7 @@ export const DrillPlayer: React.FC<DrillPlayerProps> = ({ drill, game, onComplet
           ) : (
               <div className="flex space-x-3">
                   <button onClick={handleGiveUp} className="flex-1 bg-slate-800 hover:bg-slate-700 py-3 rounded-xl text-slate-400 font-medium transition-colors border border-slate-700">Give Up</button>
-                  <button onClick={() => { setHintUsed(true); setFeedback(`Hint: Try moving ${drill.solutionSan[0][0] || 'a piece'}...`); }} className="flex-1 bg-slate-800 hover:bg-slate-700 py-3 rounded-xl text-cyan-400 font-medium transition-colors border border-slate-700">Get Hint</button>
+                  <button onClick={() => { setHintUsed(true); setFeedback(`Hint: Try moving ${line[plyIndex]?.[0] || 'a piece'}...`); }} className="flex-1 bg-slate-800 hover:bg-slate-700 py-3 rounded-xl text-cyan-400 font-medium transition-colors border border-slate-700">Get Hint</button>
               </div>
           )}
       </div>
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { Attempt, ChessGame, CoachResponse, Drill, DrillOutcome, DrillSchedule } from '../types';
+import Board from './Board';
+import { generateCoachResponse } from '../services/geminiService';
+import { parsePgn } from '../services/pgnParser';
+
+interface LeechRemediationProps {
+  drill: Drill;
+  game?: ChessGame;
+  schedule?: DrillSchedule;
+  attempts?: Attempt[]; // Newest first
+  onPractisePrerequisite: () => void;
+  onUnsuspend: () => void;
+  onBack: () => void;
+}
+
+// Moves of game context shown either side of the drill position
+const CONTEXT_PLIES = 8;
+
+export const LeechRemediation: React.FC<LeechRemediationProps> = ({ drill, game, schedule, attempts = [], onPractisePrerequisite, onUnsuspend, onBack }) => {
+  const [coachMsg, setCoachMsg] = useState<CoachResponse | null>(null);
+  const [coachError, setCoachError] = useState<string | null>(null);
+  const [isCoaching, setIsCoaching] = useState(false);
+
+  const gameMoves = useMemo(() => {
+    if (!game) return [];
+    try {
+      return parsePgn(game.pgn).mainline.map(n => n.san);
+    } catch (e) {
+      return [];
+    }
+  }, [game?.id]);
+
+  const focusPly = drill.sourcePly ?? -1;
+  const firstPly = Math.max(0, focusPly - CONTEXT_PLIES);
+  const lastPly = focusPly >= 0 ? Math.min(gameMoves.length, focusPly + CONTEXT_PLIES) : gameMoves.length;
+
+  const askCoach = async () => {
+    setIsCoaching(true);
+    setCoachError(null);
+    try {
+      setCoachMsg(await generateCoachResponse(drill, drill.solutionSan[0], true, drill.fen));
+    } catch (e) {
+      setCoachError("AI Coach unavailable (Check API Key)");
+    } finally {
+      setIsCoaching(false);
+    }
+  };
+
+  const orientation = (game?.userColor ?? (drill.fen.split(' ')[1] === 'b' ? 'b' : 'w')) === 'b' ? 'black' : 'white';
+
+  return (
+    <div className="min-h-screen p-6 pb-24 max-w-xl mx-auto space-y-6">
+      <header>
+        <button onClick={onBack} className="text-xs text-slate-500 mb-2">← Back</button>
+        <div className="text-xs text-amber-400 font-bold uppercase tracking-wider">Leech · {schedule?.lapses ?? 0} lapses</div>
+        <h1 className="text-2xl font-bold text-white">{drill.goal}</h1>
+        <p className="text-slate-400 text-sm">This drill keeps slipping, so it is paused. Rebuild it step by step.</p>
+      </header>
+
+      <div className="w-full aspect-square">
+        <Board fen={drill.fen} onPieceDrop={() => false} isInteractive={false} orientation={orientation} />
+      </div>
+
+      {game && (
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-4">
+          <h3 className="text-sm font-bold text-slate-400 mb-2 uppercase">From your game</h3>
+          <div className="text-xs text-slate-300 mb-3">{game.white} vs {game.black} · {game.result}{game.opening?.name ? ` · ${game.opening.name}` : ''}</div>
+          <div className="flex flex-wrap gap-1 font-mono text-xs">
+            {firstPly > 0 && <span className="text-slate-600">…</span>}
+            {gameMoves.slice(firstPly, lastPly).map((san, i) => {
+              const ply = firstPly + i;
+              const label = ply % 2 === 0 ? `${ply / 2 + 1}. ${san}` : san;
+              return (
+                <span key={ply} className={`px-1 rounded ${ply === focusPly ? 'bg-red-900/60 text-red-200' : 'text-slate-400'}`}>{label}</span>
+              );
+            })}
+            {lastPly < gameMoves.length && <span className="text-slate-600">…</span>}
+          </div>
+          {drill.playedMoveSan && <div className="text-xs text-slate-500 mt-2">You played <span className="text-red-300 font-mono">{drill.playedMoveSan}</span>.</div>}
+        </div>
+      )}
+
+      {attempts.length > 0 && (
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-4">
+          <h3 className="text-sm font-bold text-slate-400 mb-2 uppercase">Your attempts</h3>
+          <div className="space-y-1">
+            {attempts.map(a => (
+              <div key={a.id} className="flex items-center gap-2 text-xs">
+                <span className={`w-2 h-2 rounded-full shrink-0 ${a.outcome === DrillOutcome.FAILURE ? 'bg-red-500' : 'bg-emerald-500'}`}></span>
+                <span className="text-slate-500 w-20">{new Date(a.timestamp).toLocaleDateString()}</span>
+                <span className="flex-1 font-mono text-slate-300 truncate">{a.userMoves.join(' ') || '—'}</span>
+                <span className="font-mono text-slate-500">{Math.round(a.durationMs / 1000)}s</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-2">
+        <h3 className="text-sm font-bold text-slate-400 uppercase">Solution</h3>
+        <div className="font-mono text-sm text-emerald-300">{drill.solutionSan.join(' ')}</div>
+        <p className="text-sm text-slate-300">{drill.explanation}</p>
+        {coachMsg ? (
+          <div className="border-t border-slate-800 pt-2 mt-2 text-sm text-slate-300">
+            {coachMsg.explanation}
+            <div className="text-xs font-mono text-cyan-400/80 mt-1">💡 Tip: {coachMsg.ruleOfThumb}</div>
+          </div>
+        ) : (
+          <button onClick={askCoach} disabled={isCoaching} className="text-xs text-cyan-400 hover:text-cyan-300">{isCoaching ? 'AI Coach Analyzing...' : 'Ask the coach why'}</button>
+        )}
+        {coachError && <div className="text-red-400 text-xs">{coachError}</div>}
+      </div>
+
+      <div className="flex space-x-3">
+        <button onClick={onPractisePrerequisite} className="flex-1 bg-gradient-to-r from-cyan-600 to-blue-600 text-white py-3 rounded-xl font-bold">Practise the key move</button>
+        <button onClick={onUnsuspend} className="flex-1 bg-slate-800 hover:bg-slate-700 py-3 rounded-xl text-slate-300 font-medium border border-slate-700">Unsuspend</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { SkillSnapshot } from '../types';
+import { confidenceBand } from '../services/skillHistoryService';
+
+interface SkillProgressChartProps {
+  series: SkillSnapshot[];
+}
+
+const WIDTH = 300;
+const HEIGHT = 120;
+
+/**
+ * Mastery over time, with the confidence band shaded behind the line.
+ */
+export const SkillProgressChart: React.FC<SkillProgressChartProps> = ({ series }) => {
+  if (series.length < 2) {
+    return <div className="text-slate-500 text-sm text-center py-10">Complete a few drills in this theme to see your progress.</div>;
+  }
+
+  const first = series[0].at;
+  const span = Math.max(1, series[series.length - 1].at - first);
+  const x = (s: SkillSnapshot) => ((s.at - first) / span) * WIDTH;
+  const y = (mastery: number) => HEIGHT - (mastery / 100) * HEIGHT;
+
+  const upper = series.map(s => `${x(s)},${y(confidenceBand(s).high)}`);
+  const lower = series.map(s => `${x(s)},${y(confidenceBand(s).low)}`).reverse();
+  const line = series.map(s => `${x(s)},${y(s.mastery)}`).join(' ');
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-32" preserveAspectRatio="none">
+        {[25, 50, 75].map(m => <line key={m} x1="0" x2={WIDTH} y1={y(m)} y2={y(m)} className="stroke-slate-800" strokeWidth="1" />)}
+        <polygon points={[...upper, ...lower].join(' ')} className="fill-cyan-500/15" />
+        <polyline points={line} fill="none" className="stroke-cyan-400" strokeWidth="2" />
+      </svg>
+      <div className="flex justify-between text-[10px] text-slate-500 mt-1">
+        <span>{new Date(first).toLocaleDateString()}</span>
+        <span>{series.length} updates</span>
+        <span>{new Date(series[series.length - 1].at).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+};
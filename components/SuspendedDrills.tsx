@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Chess } from 'chess.js';
+import { Drill, DrillSchedule } from '../types';
+
+interface SuspendedDrillsProps {
+  drills: Drill[];
+  schedules: Record<string, DrillSchedule>;
+  onReview: (drillId: string) => void;
+  onUnsuspend: (drillId: string) => void;
+  onEdit: (drillId: string, changes: Pick<Drill, 'goal' | 'solutionSan'>) => void;
+  onDelete: (drillId: string) => void;
+  onBack: () => void;
+}
+
+/**
+ * Checks that every move of the edited line is legal from the drill position.
+ */
+const validateLine = (fen: string, solutionSan: string[]): string | null => {
+  if (solutionSan.length === 0) return 'Enter at least one move.';
+  const board = new Chess(fen);
+  for (const san of solutionSan) {
+    try {
+      board.move(san);
+    } catch (e) {
+      return `${san} is not legal here.`;
+    }
+  }
+  return null;
+};
+
+export const SuspendedDrills: React.FC<SuspendedDrillsProps> = ({ drills, schedules, onReview, onUnsuspend, onEdit, onDelete, onBack }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [goal, setGoal] = useState('');
+  const [line, setLine] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const startEdit = (drill: Drill) => {
+    setEditingId(drill.id);
+    setGoal(drill.goal);
+    setLine(drill.solutionSan.join(' '));
+    setError(null);
+  };
+
+  const saveEdit = (drill: Drill) => {
+    const solutionSan = line.trim().split(/\s+/).filter(Boolean);
+    const problem = validateLine(drill.fen, solutionSan);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onEdit(drill.id, { goal: goal.trim() || drill.goal, solutionSan });
+    setEditingId(null);
+  };
+
+  return (
+    <div className="min-h-screen p-6 pb-24 max-w-xl mx-auto">
+      <header className="mb-6">
+        <button onClick={onBack} className="text-xs text-slate-500 mb-2">← Back</button>
+        <h1 className="text-2xl font-bold text-white">Suspended Drills</h1>
+        <p className="text-slate-400 text-sm">Drills you kept missing are paused here until you bring them back.</p>
+      </header>
+
+      {drills.length === 0 && <div className="text-slate-500 text-sm text-center py-10">Nothing suspended.</div>}
+
+      <div className="space-y-3">
+        {drills.map(drill => (
+          <div key={drill.id} className="bg-slate-900 border border-slate-800 rounded-xl p-4">
+            <div className="flex justify-between items-start mb-2">
+              <div>
+                <div className="text-xs text-cyan-400 font-bold uppercase tracking-wider">{drill.theme}</div>
+                <div className="text-sm text-white font-medium">{drill.goal}</div>
+              </div>
+              <div className="text-xs text-amber-400 font-mono">{schedules[drill.id]?.lapses ?? 0} lapses</div>
+            </div>
+
+            {editingId === drill.id ? (
+              <div className="space-y-2">
+                <input value={goal} onChange={e => setGoal(e.target.value)} className="w-full bg-slate-950 border border-slate-700 rounded-lg py-2 px-3 text-sm text-white" placeholder="Goal" />
+                <input value={line} onChange={e => setLine(e.target.value)} className="w-full bg-slate-950 border border-slate-700 rounded-lg py-2 px-3 text-sm font-mono text-white" placeholder="Solution (SAN, space separated)" />
+                {error && <div className="text-red-400 text-xs">{error}</div>}
+                <div className="flex gap-2">
+                  <button onClick={() => saveEdit(drill)} className="flex-1 bg-cyan-600 hover:bg-cyan-500 text-white py-2 rounded-lg text-xs font-bold">Save</button>
+                  <button onClick={() => setEditingId(null)} className="flex-1 bg-slate-800 hover:bg-slate-700 text-slate-300 py-2 rounded-lg text-xs">Cancel</button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <div className="font-mono text-xs text-slate-400 mb-3">{drill.solutionSan.join(' ')}</div>
+                <div className="grid grid-cols-4 gap-2">
+                  <button onClick={() => onReview(drill.id)} className="bg-slate-800 hover:bg-slate-700 py-2 rounded-lg text-xs text-cyan-400">Review</button>
+                  <button onClick={() => onUnsuspend(drill.id)} className="bg-slate-800 hover:bg-slate-700 py-2 rounded-lg text-xs text-emerald-400">Unsuspend</button>
+                  <button onClick={() => startEdit(drill)} className="bg-slate-800 hover:bg-slate-700 py-2 rounded-lg text-xs text-slate-300">Edit</button>
+                  <button onClick={() => onDelete(drill.id)} className="bg-slate-800 hover:bg-red-900/60 py-2 rounded-lg text-xs text-red-400">Delete</button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useMemo, useState } from 'react';
+import { DrillSchedule, IScheduler, SkillState } from '../types';
+import { compareNewDrillLimits, forecastDueCounts, OUTCOME_PRESETS, SimulatedDay } from '../services/forecastService';
+
+interface WorkloadForecastProps {
+  schedules: Record<string, DrillSchedule>;
+  scheduler: IScheduler;
+  skill?: SkillState; // Starting point for the mastery projection
+  onBack: () => void;
+}
+
+const NEW_DRILL_LIMITS = [2, 5, 10];
+const LIMIT_COLORS: Record<number, string> = { 2: '#22d3ee', 5: '#a78bfa', 10: '#f59e0b' };
+const SIMULATION_DAYS = [30, 90];
+
+type Preset = keyof typeof OUTCOME_PRESETS;
+
+const LineChart = ({ runs, value, max }: { runs: Record<number, SimulatedDay[]>; value: (d: SimulatedDay) => number; max: number }) => {
+  const width = 300;
+  const height = 100;
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-28">
+      {Object.entries(runs).map(([limit, days]) => {
+        const points = days.map((d, i) => `${(i / Math.max(1, days.length - 1)) * width},${height - (value(d) / Math.max(1, max)) * height}`).join(' ');
+        return <polyline key={limit} points={points} fill="none" stroke={LIMIT_COLORS[Number(limit)]} strokeWidth="2" />;
+      })}
+    </svg>
+  );
+};
+
+export const WorkloadForecast: React.FC<WorkloadForecastProps> = ({ schedules, scheduler, skill, onBack }) => {
+  const [preset, setPreset] = useState<Preset>('average');
+  const [days, setDays] = useState(SIMULATION_DAYS[0]);
+
+  const dueCounts = useMemo(() => forecastDueCounts(schedules, Date.now()), [schedules]);
+  const maxDue = Math.max(1, ...dueCounts);
+
+  const runs = useMemo(() => compareNewDrillLimits(NEW_DRILL_LIMITS, {
+    scheduler,
+    days,
+    distribution: OUTCOME_PRESETS[preset].distribution,
+    startSchedules: (Object.values(schedules) as DrillSchedule[]).filter(s => s.reviews?.length),
+    startSkill: skill,
+  }), [scheduler, days, preset, schedules, skill]);
+
+  const maxReviews = Math.max(1, ...(Object.values(runs) as SimulatedDay[][]).flatMap(r => r.map(d => d.reviews)));
+
+  return (
+    <div className="min-h-screen p-6 pb-24 max-w-xl mx-auto space-y-6">
+      <header>
+        <button onClick={onBack} className="text-xs text-slate-500 mb-2">← Back</button>
+        <h1 className="text-2xl font-bold text-white">Workload</h1>
+        <p className="text-slate-400 text-sm">Reviews coming up, and what different new-drill limits would lead to.</p>
+      </header>
+
+      <div className="bg-slate-900 border border-slate-800 rounded-xl p-4">
+        <h3 className="text-sm font-bold text-slate-400 mb-3 uppercase">Next 30 Days</h3>
+        <div className="flex items-end gap-0.5 h-24">
+          {dueCounts.map((count, i) => (
+            <div key={i} className="flex-1 bg-cyan-500/70 rounded-t" style={{ height: `${(count / maxDue) * 100}%` }} title={`Day ${i}: ${count} due`}></div>
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] text-slate-500 mt-1"><span>Today ({dueCounts[0]})</span><span>+30d</span></div>
+      </div>
+
+      <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-sm font-bold text-slate-400 uppercase">Simulator</h3>
+          <div className="flex gap-1">
+            {SIMULATION_DAYS.map(d => (
+              <button key={d} onClick={() => setDays(d)} className={`px-2 py-1 rounded text-xs ${days === d ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-400'}`}>{d}d</button>
+            ))}
+          </div>
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(OUTCOME_PRESETS) as Preset[]).map(p => (
+            <button key={p} onClick={() => setPreset(p)} className={`flex-1 py-1 rounded text-xs ${preset === p ? 'bg-slate-700 text-white' : 'bg-slate-800 text-slate-400'}`}>{OUTCOME_PRESETS[p].label}</button>
+          ))}
+        </div>
+
+        <div>
+          <div className="text-xs text-slate-400 mb-1">Reviews per day</div>
+          <LineChart runs={runs} value={d => d.reviews} max={maxReviews} />
+        </div>
+        <div>
+          <div className="text-xs text-slate-400 mb-1">Mastery</div>
+          <LineChart runs={runs} value={d => d.mastery} max={100} />
+        </div>
+
+        <div className="space-y-1">
+          {NEW_DRILL_LIMITS.map(limit => {
+            const run = runs[limit];
+            const lastWeek = run.slice(-7);
+            const avgReviews = lastWeek.reduce((sum, d) => sum + d.reviews, 0) / Math.max(1, lastWeek.length);
+            return (
+              <div key={limit} className="flex items-center gap-2 text-xs">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: LIMIT_COLORS[limit] }}></span>
+                <span className="flex-1 text-slate-300">{limit} new / day</span>
+                <span className="font-mono text-slate-400">~{Math.round(avgReviews)} reviews/day</span>
+                <span className="font-mono text-slate-400 w-20 text-right">mastery {Math.round(run[run.length - 1]?.mastery ?? 0)}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
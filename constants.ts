@@ -13,6 +13,99 @@ export const INITIAL_SCHEDULE_SETTINGS = {
   initialEase: 2.5,
 };
 
+export const LEARNING_STEP_SETTINGS = {
+  learningStepsMinutes: [1, 10], // New drills: retry after 1 minute, then 10, then graduate to days
+  relearningStepsMinutes: [10], // Lapsed drills: one 10-minute retry before returning to days
+  maxSessionRequeues: 2, // Times a drill can come back within one session
+};
+
+export const REVIEW_SESSION_SETTINGS = {
+  sessionSize: 10,
+  dailyReviewCap: 50,
+  newDrillRatio: 0.2, // Two new drills in a ten-drill session
+};
+
+export const INTERLEAVING_SETTINGS = {
+  masteryWeight: 0.5, // Low mastery pulls a theme forward most
+  confidenceWeight: 0.2, // Themes we know little about get sampled to learn more
+  recencyWeight: 0.3, // Themes left alone come back
+  recencyHorizonDays: 7, // Full recency weight after a week without practice
+  minWeight: 0.05, // Strong themes still appear occasionally
+  maxConsecutive: 2, // Same theme at most twice in a row
+};
+
+export const LEECH_SETTINGS = {
+  lapseThreshold: 4, // Lapses before a drill is suspended as a leech
+  repeatEvery: 2, // After that, every 2 further lapses suspend it again
+};
+
+export const FSRS_SETTINGS = {
+  desiredRetention: 0.9, // Intervals aim for a 90% chance of solving the drill when it comes due
+  maximumInterval: 365, // Days
+  // FSRS-4.5 default weights, fitted on a large public review dataset
+  defaultParameters: [0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755],
+  minReviewsToOptimize: 50, // Repeat reviews needed before fitting personal weights
+};
+
+export const SCHEDULE_HISTORY_LIMIT = 30; // Reviews kept per drill schedule
+export const SKILL_HISTORY_LIMIT = 500; // Snapshots kept per theme
+export const ATTEMPT_HISTORY_LIMIT = 5000; // Oldest attempts are dropped beyond this
+
+export const THEME_LOCK_SETTINGS = {
+  cooldownMinutes: 60, // A tilted theme stays out of training this long
+  recentOutcomeLimit: 10, // Outcomes kept per theme for the stop condition
+  remedialSetSize: 3, // Easier drills suggested while a theme is locked
+};
+
+export const MASTERY_DECAY_SETTINGS = {
+  graceDays: 7, // No decay within a week of practice
+  halfLifeDays: 90, // Mastery above the floor halves every 90 idle days
+  floorFraction: 0.6, // Decay never takes mastery below 60% of its practised value
+  confidenceHalfLifeDays: 30,
+};
+
+export const RATING_SETTINGS = {
+  defaultRating: 1200, // Used when no rated games are available
+  initialDeviation: 350,
+  minDeviation: 50,
+  trainingSeedDeviation: 200, // Training rating starts at the game rating, with this much doubt
+  recentGames: 20, // Latest rated games per time control used to seed the estimate
+  // Drill difficulty 1-5 maps linearly onto this rating range
+  drillRatingRange: [800, 2400],
+  deviationGrowthPerDay: 18, // Idle deviation grows back from the minimum to the initial value in about a year
+  drillDeviation: 150, // Difficulty estimates are rough, so drills count as uncertain opponents
+  // Chess.com to Lichess, per time control: lichess = chesscom * scale + offset
+  chesscomToLichess: {
+    bullet: { scale: 0.75, offset: 500 },
+    blitz: { scale: 0.75, offset: 550 },
+    rapid: { scale: 0.8, offset: 450 },
+    classical: { scale: 0.8, offset: 450 },
+    daily: { scale: 0.9, offset: 200 },
+    unknown: { scale: 0.8, offset: 450 },
+  } as Record<string, { scale: number; offset: number }>,
+};
+
+export const ENGINE_SETTINGS = {
+  workerUrl: '/stockfish/stockfish.js', // Stockfish WASM build served from /public
+  depth: 12,
+  handshakeTimeoutMs: 15000, // Time for a fresh worker to answer "uci" and "isready"
+  searchTimeoutMs: 30000, // A search without "bestmove" by then is stopped and fails
+  stopGraceMs: 2000, // How long a stopped search gets to report before the worker is restarted
+  mistakeThresholdCp: 150, // Eval swing (centipawns) that counts as a mistake
+  maxSolutionPlies: 5,
+  maxDrillsPerGame: 3,
+  alternativeLines: 3, // MultiPV lines searched at the user's moves
+  alternativeToleranceCp: 30, // Lines this close to the best one are accepted as alternatives
+};
+
+export const CLOCK_SETTINGS = {
+  timeTroubleFraction: 0.1, // Below 10% of the starting clock...
+  timeTroubleMinSeconds: 10, // ...or 10 seconds, whichever is larger
+  longThinkFactor: 3, // A think longer than 3x the player's median move time...
+  longThinkMinSeconds: 20, // ...and at least 20 seconds
+  openingPlies: 20,
+};
+
 export const MOCK_DRILLS_COUNT = 5;
 
 export const DEMO_PGN_ANDERSSEN = `[Event "Casual Game"]
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { Chess } from 'chess.js';
+import { ChessGame, EngineAnalysis, EngineLine, EngineSearchOptions, IChessEngine, Theme, TrainingMode } from '../types';
+import { generateDrillFromMode, generateDrillsFromGames, getDemoGames } from './analysisService';
+
+/**
+ * Replays scripted analyses by FEN; positions without a script evaluate as level with no line.
+ */
+class ScriptedEngine implements IChessEngine {
+  searches: { fen: string; options?: EngineSearchOptions }[] = [];
+  terminated = false;
+
+  constructor(private script: Record<string, EngineLine[] | Error>) {}
+
+  async analyse(fen: string, options?: EngineSearchOptions): Promise<EngineAnalysis> {
+    this.searches.push({ fen, options });
+    const scripted = this.script[fen];
+    if (scripted instanceof Error) throw scripted;
+    const lines = scripted || [{ multiPv: 1, depth: 12, scoreCp: 0, pv: [] }];
+    return { fen, bestMove: lines[0].pv[0] || null, lines };
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const makeGame = (id: string, pgn: string, userColor: 'w' | 'b'): ChessGame => ({
+  id,
+  white: 'white',
+  black: 'black',
+  pgn,
+  date: '2026-01-01',
+  result: '*',
+  source: 'lichess',
+  timeControl: 'blitz',
+  rated: true,
+  userColor,
+});
+
+// Black answers 3. Bc4 with 3...Nf6?? and is mated on f7
+const SCHOLARS_MATE = '1. e4 e5 2. Qh5 Nc6 3. Bc4 Nf6 4. Qxf7# 1-0';
+
+const fenBefore = (pgn: string, ply: number) => {
+  const chess = new Chess();
+  chess.loadPgn(pgn);
+  return chess.history({ verbose: true })[ply].before;
+};
+
+describe('generateDrillsFromGames', () => {
+  const beforeBlunder = fenBefore(SCHOLARS_MATE, 5);
+  const afterBlunder = fenBefore(SCHOLARS_MATE, 6);
+  const script = {
+    [beforeBlunder]: [
+      { multiPv: 1, depth: 12, scoreCp: -20, pv: ['g7g6', 'h5f3', 'g8f6'] },
+      { multiPv: 2, depth: 12, scoreCp: -40, pv: ['d8e7'] },
+      { multiPv: 3, depth: 12, scoreCp: -400, pv: ['a7a6'] },
+    ],
+    [afterBlunder]: [{ multiPv: 1, depth: 12, mate: 1, pv: ['h5f7'] }],
+  };
+
+  it('turns the eval swing at the user\'s blunder into a drill', async () => {
+    const engine = new ScriptedEngine(script);
+    const drills = await generateDrillsFromGames([makeGame('g1', SCHOLARS_MATE, 'b')], { engine, depth: 8 });
+
+    expect(drills).toHaveLength(1);
+    const [drill] = drills;
+    expect(drill.id).toBe('drill-engine-g1-5');
+    expect(drill.fen).toBe(beforeBlunder);
+    expect(drill.playedMoveSan).toBe('Nf6');
+    expect(drill.solutionSan).toEqual(['g6', 'Qf3', 'Nf6']);
+    expect(drill.alternatives).toEqual([[{ san: 'Qe7', continuation: undefined }]]);
+    expect(drill.theme).toBe(Theme.OPENING);
+
+    // Only the user's (Black's) moves are searched, at the requested depth
+    expect(engine.searches.every(s => s.options?.depth === 8)).toBe(true);
+    expect(engine.searches.some(s => s.fen === fenBefore(SCHOLARS_MATE, 0))).toBe(false);
+    // A caller-supplied engine is left running
+    expect(engine.terminated).toBe(false);
+  });
+
+  it('does not drill the opponent\'s blunder', async () => {
+    const engine = new ScriptedEngine(script);
+    const drills = await generateDrillsFromGames([makeGame('g1', SCHOLARS_MATE, 'w')], { engine });
+    expect(drills).toHaveLength(0);
+  });
+
+  it('skips a game whose analysis fails and mines the rest', async () => {
+    const failing = '1. d4 d5 2. c4 e6 3. Nc3 Nf6 *';
+    const engine = new ScriptedEngine({ ...script, [fenBefore(failing, 1)]: new Error('Engine search timed out after 30000ms') });
+    const progress: number[] = [];
+
+    const drills = await generateDrillsFromGames(
+      [makeGame('broken', failing, 'b'), makeGame('g1', SCHOLARS_MATE, 'b')],
+      { engine, onProgress: done => progress.push(done) }
+    );
+
+    expect(drills.map(d => d.id)).toEqual(['drill-engine-g1-5']);
+    expect(progress).toEqual([1, 2]);
+  });
+});
+
+describe('generateDrillFromMode', () => {
+  const games = getDemoGames();
+  const modes = [TrainingMode.RANDOM_MOMENT, TrainingMode.CRITICAL_POSITION, TrainingMode.START_FROM_MOVE];
+
+  it('regenerates the same drill from the same games, mode, options and seed', () => {
+    modes.forEach(mode => {
+      const first = generateDrillFromMode(games, mode, {}, 1234);
+      const second = generateDrillFromMode(games, mode, {}, 1234);
+      expect(second).toEqual(first);
+      expect(first.id).toBe(`drill-${mode}-${first.sourceGameId}-1234`);
+      expect(first.seed).toBe(1234);
+    });
+  });
+
+  it('picks different positions for different seeds', () => {
+    const drills = [1, 2, 3, 4, 5, 6, 7, 8].map(seed => generateDrillFromMode(games, TrainingMode.RANDOM_MOMENT, {}, seed));
+    expect(new Set(drills.map(d => d.id)).size).toBe(drills.length);
+    expect(new Set(drills.map(d => d.fen)).size).toBeGreaterThan(1);
+    expect(new Set(drills.map(d => d.solutionSan.join(' '))).size).toBeGreaterThan(1);
+  });
+
+  it('is unaffected by Math.random', () => {
+    const original = Math.random;
+    try {
+      Math.random = () => 0;
+      const pinned = generateDrillFromMode(games, TrainingMode.RANDOM_MOMENT, {}, 99);
+      Math.random = () => 0.999;
+      expect(generateDrillFromMode(games, TrainingMode.RANDOM_MOMENT, {}, 99)).toEqual(pinned);
+    } finally {
+      Math.random = original;
+    }
+  });
+});
@@ -1,27 +1,14 @@
-import { ChessGame, Drill, Theme, TrainingMode } from '../types';
+import { ChessGame, Drill, DrillAlternative, EndgameType, EngineLine, IChessEngine, Theme, TrainingMode } from '../types';
 import { Chess } from 'chess.js';
-import { DEMO_PGN_ANDERSSEN, DEMO_PGN_FISCHER, DEMO_PGN_KASPAROV, DEMO_PGN_MORPHY } from '../constants';
-
-const cleanPgn = (pgn: string): string => {
-  let clean = pgn;
-  // Normalize whitespace FIRST to ensure reliable regex matching (especially for $ at end of string)
-  clean = clean.replace(/\s+/g, " ").trim();
-
-  // Remove comments { ... }
-  clean = clean.replace(/\{[^}]*\}/g, " ");
-  // Remove variations ( ... )
-  clean = clean.replace(/\([^)]*\)/g, " ");
-  // Remove metadata tags [ ... ]
-  clean = clean.replace(/\[.*?\]/g, " ");
-  // Remove numeric annotation glyphs like $1, $20
-  clean = clean.replace(/\$\d+/g, " ");
-  // Remove Result markers at the end (now works reliably because trailing whitespace is gone)
-  clean = clean.replace(/(1-0|0-1|1\/2-1\/2|\*)$/, "");
-
-  // Normalize whitespace AGAIN to clean up artifacts from replacements
-  clean = clean.replace(/\s+/g, " ").trim();
-  return clean;
-};
+import { DEMO_PGN_ANDERSSEN, DEMO_PGN_FISCHER, DEMO_PGN_KASPAROV, DEMO_PGN_MORPHY, ENGINE_SETTINGS } from '../constants';
+import { StockfishEngine } from './engineService';
+import { classifyMotifs, describeMotifGoal } from './motifService';
+import { estimateDifficulty } from './difficultyService';
+import { loadGame, PgnGame } from './pgnParser';
+import { isTimeTroublePly } from './clockService';
+import { generateRepertoireDrills } from './repertoireService';
+import { classifyEndgame, findEndgameStart, isEndgamePosition } from './endgameService';
+import { createRng, pickOne, randomInt, randomSeed } from './random';
 
 // Explicit Demo Generator for the "Try Demo" button ONLY
 export const generateDemoDrill = (): Drill => {
@@ -88,17 +75,59 @@ export const getDemoGames = (): ChessGame[] => {
   return games;
 };
 
+/**
+ * Game lines carry no engine scores, so the only alternatives we can vouch for
+ * are other mates at steps where the game move itself mates.
+ */
+const findMateAlternatives = (fen: string, solutionSan: string[]): DrillAlternative[][] | undefined => {
+  const board = new Chess(fen);
+  const alternatives: DrillAlternative[][] = [];
+  let found = false;
+
+  for (let i = 0; i < solutionSan.length; i++) {
+    alternatives.push([]);
+    if (i % 2 === 0 && solutionSan[i].endsWith('#')) {
+      for (const san of board.moves()) {
+        if (san !== solutionSan[i] && san.endsWith('#')) {
+          alternatives[i].push({ san });
+          found = true;
+        }
+      }
+    }
+    try {
+      board.move(solutionSan[i]);
+    } catch (e) {
+      break;
+    }
+  }
+  return found ? alternatives : undefined;
+};
+
 export const generateDrillFromMode = (
   games: ChessGame[], 
   mode: TrainingMode, 
-  options: { startMove?: number } = {}
+  options: { startMove?: number; endgameType?: EndgameType } = {},
+  seed: number = randomSeed()
 ): Drill => {
   console.log(`[Analysis] Generating drill. Pool: ${games.length}`);
+  // Same (games, mode, options, seed) => same drill
+  const rng = createRng(seed);
   
   if (!games || games.length === 0) {
       throw new Error("No games provided for analysis.");
   }
 
+  if (mode === TrainingMode.OPENING_REPERTOIRE) {
+      const candidates = generateRepertoireDrills(games, 5);
+      if (candidates.length === 0) throw new Error("Not enough repeated openings to build a repertoire drill.");
+      return { ...pickOne(rng, candidates), seed };
+  }
+
+  if (mode === TrainingMode.TIME_TROUBLE) {
+      games = games.filter(g => g.userColor && g.moveTimes && g.timeControl !== 'daily');
+      if (games.length === 0) throw new Error("No imported games have clock data.");
+  }
+
   let attempts = 0;
   const maxAttempts = 50;
 
@@ -107,14 +136,13 @@ export const generateDrillFromMode = (
 
   while (attempts < maxAttempts) {
     attempts++;
-    const game = games[Math.floor(Math.random() * games.length)];
+    const game = pickOne(rng, games);
     
-    const chess = new Chess();
+    let chess: Chess;
     
     try {
-      // 1. Load PGN strictly using the cleaned version
-      const cleaned = cleanPgn(game.pgn);
-      chess.loadPgn(cleaned);
+      // 1. Parse PGN and replay the mainline
+      chess = loadGame(game.pgn).chess;
       
       // 2. Verify we actually loaded moves
       if (chess.history().length === 0) {
@@ -133,7 +161,8 @@ export const generateDrillFromMode = (
     }
 
     let targetIndex = 0;
-    let theme = Theme.TACTICS;
+    // Without a detected motif, a mid-game position is about converting (or keeping) the balance
+    let theme = Theme.ADVANTAGE;
     let goal = "Find the best move";
 
     // 2. Select Target Index based on Mode
@@ -145,42 +174,67 @@ export const generateDrillFromMode = (
       case TrainingMode.RANDOM_MOMENT:
         const min = 12; 
         const max = Math.max(min, fullHistory.length - 8);
-        targetIndex = Math.floor(Math.random() * (max - min + 1)) + min;
-        theme = Theme.ADVANTAGE;
+        targetIndex = randomInt(rng, min, max);
         break;
       case TrainingMode.CRITICAL_POSITION:
-        // Try to find a moment with captures or checks
-        let bestIdx = Math.floor(fullHistory.length / 2);
-        // Scan middle game for tactical complications
+        // Scan middle game for moments where the game line contains a concrete motif
         const candidates = [];
         for(let i = 12; i < fullHistory.length - 8; i++) {
-            const san = fullHistory[i].san;
-            if (san.includes('x') || san.includes('+') || san.includes('#')) {
+            if (game.userColor && fullHistory[i].color !== game.userColor) continue;
+            const line = fullHistory.slice(i, i + 6).map(m => m.san);
+            if (classifyMotifs(fullHistory[i].before, line).motifs.length > 0) {
                 candidates.push(i);
             }
         }
         
         if (candidates.length > 0) {
-            targetIndex = candidates[Math.floor(Math.random() * candidates.length)];
+            targetIndex = pickOne(rng, candidates);
         } else {
              targetIndex = Math.floor(fullHistory.length / 2);
         }
-        theme = Theme.TACTICS;
         break;
-      case TrainingMode.ENDGAME_FINISH:
-        targetIndex = Math.max(0, fullHistory.length - 20); 
+      case TrainingMode.TIME_TROUBLE: {
+        // Positions where the user was short on time: train deciding quickly
+        const scrambles = fullHistory
+            .map((_, ply) => ply)
+            .filter(ply => fullHistory[ply].color === game.userColor && isTimeTroublePly(game, ply));
+        if (scrambles.length === 0) continue;
+        targetIndex = pickOne(rng, scrambles);
+        goal = "Decide fast";
+        break;
+      }
+      case TrainingMode.ENDGAME_FINISH: {
+        const fens = fullHistory.map(m => m.before);
+        const endgameStart = findEndgameStart(fens);
+        // Need a few moves of play left after the endgame begins
+        if (endgameStart === null || endgameStart > fullHistory.length - 6) continue;
+
+        let candidate: number | undefined = endgameStart;
+        if (options.endgameType) {
+            candidate = fens
+                .map((_, ply) => ply)
+                .find(ply => ply >= endgameStart && ply <= fullHistory.length - 6 && classifyEndgame(fens[ply]) === options.endgameType);
+        }
+        if (candidate === undefined) continue;
+        targetIndex = candidate;
         theme = Theme.ENDGAME;
         goal = "Convert the endgame";
         break;
+      }
       default:
         targetIndex = Math.floor(fullHistory.length / 2);
     }
 
     // Bounds check
     targetIndex = Math.max(0, Math.min(targetIndex, fullHistory.length - 6));
+
+    // Only quiz positions where the linked user was on move (games without a known side are open to both)
+    if (game.userColor && fullHistory[targetIndex].color !== game.userColor) {
+        targetIndex = targetIndex + 1 < fullHistory.length ? targetIndex + 1 : targetIndex - 1;
+    }
     
     // Rewind Board to Target Index
-    // Note: chess.loadPgn puts board at END of game.
+    // Note: loadGame leaves the board at the END of the game.
     // We undo until we reach targetIndex.
     const movesToUndo = fullHistory.length - targetIndex;
     
@@ -213,25 +267,275 @@ export const generateDrillFromMode = (
     if (solutionMoves.length === 0) continue;
 
     const solutionSan = solutionMoves.map(m => m.san);
+
+    // Motifs found on the board override the mode's default theme (except for endgame training)
+    const classification = classifyMotifs(startFen, solutionSan);
+    if (classification.motifs.length > 0 && mode !== TrainingMode.ENDGAME_FINISH) {
+        theme = Theme.TACTICS;
+        goal = describeMotifGoal(classification) || goal;
+    }
     
     console.log(`[Analysis] Generated Drill ${game.id} at Move ${Math.floor(targetIndex/2)}. Solution: ${solutionSan[0]}`);
 
     return {
-      id: `drill-${mode}-${game.id}-${Date.now()}`,
+      id: `drill-${mode}-${game.id}-${seed}`,
       sourceGameId: game.id,
+      sourcePly: targetIndex,
       fen: startFen,
       theme,
+      motifs: classification.motifs,
+      endgameType: classifyEndgame(startFen) || undefined,
       goal,
       solutionSan,
+      alternatives: findMateAlternatives(startFen, solutionSan),
       playedMoveSan: fullHistory[targetIndex]?.san,
-      difficulty: 3,
-      explanation: "Generated from famous game analysis."
+      difficulty: estimateDifficulty(startFen, solutionSan),
+      explanation: "Generated from famous game analysis.",
+      timeTrouble: isTimeTroublePly(game, targetIndex) || undefined,
+      seed
     };
   }
   
   throw new Error("Failed to generate a valid drill. Please try again or check your game settings.");
 };
 
-export const generateDrillsFromGames = async (games: ChessGame[]): Promise<Drill[]> => {
+// --- ENGINE-BACKED MISTAKE MINING ---
+
+const MATE_SCORE_CP = 10000;
+// Evaluations are clamped before measuring swings so that "mate in 3" -> "+9" is not a blunder.
+const MAX_EVAL_CP = 1000;
+
+export interface MistakeMiningOptions {
+  engine?: IChessEngine; // Defaults to the Stockfish worker
+  depth?: number;
+  thresholdCp?: number;
+  maxDrillsPerGame?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+interface MinedMistake {
+  ply: number;
+  fen: string;
+  evalBefore: number;
+  evalAfter: number;
+  loss: number;
+  bestLineUci: string[];
+  alternativeLinesUci: string[][]; // Other lines within the tolerance of the best one
+  playedSan: string;
+  timeTrouble: boolean;
+}
+
+const mateToCp = (mate: number): number => {
+  const sign = mate > 0 ? 1 : -1;
+  return sign * (MATE_SCORE_CP - Math.abs(mate) * 10);
+};
+
+/**
+ * Converts an engine line into a centipawn score for the side to move.
+ */
+export const lineToCp = (line: EngineLine | undefined): number => {
+  if (!line) return 0;
+  if (line.mate !== undefined) return mateToCp(line.mate);
+  return line.scoreCp ?? 0;
+};
+
+/**
+ * Replays a UCI move list from a FEN and returns the SAN sequence.
+ * Stops at the first illegal move (engines occasionally emit truncated PVs).
+ */
+export const uciLineToSan = (fen: string, uciMoves: string[]): string[] => {
+  const chess = new Chess(fen);
+  const san: string[] = [];
+  for (const uci of uciMoves) {
+    try {
+      const move = chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] });
+      san.push(move.san);
+    } catch (e) {
+      break;
+    }
+  }
+  return san;
+};
+
+const clampEval = (cp: number) => Math.max(-MAX_EVAL_CP, Math.min(MAX_EVAL_CP, cp));
+
+const formatEval = (cp: number): string => {
+  if (Math.abs(cp) >= MATE_SCORE_CP - 1000) return cp > 0 ? 'a forced mate' : 'a forced mate against you';
+  const pawns = cp / 100;
+  return `${pawns >= 0 ? '+' : ''}${pawns.toFixed(1)}`;
+};
+
+const inferMistakeTheme = (mistake: MinedMistake, bestSan: string, hasMotifs: boolean): Theme => {
+  if (mistake.ply < 20) return Theme.OPENING;
+  if (isEndgamePosition(mistake.fen)) return Theme.ENDGAME;
+  if (hasMotifs) return Theme.TACTICS;
+  if (mistake.evalBefore >= 300) return Theme.ADVANTAGE;
+  if (/[x+#]/.test(bestSan)) return Theme.TACTICS;
+  return Theme.DEFENSE;
+};
+
+const THEME_GOALS: Record<Theme, string> = {
+  [Theme.OPENING]: 'Find the right opening move',
+  [Theme.TACTICS]: 'Find the tactic you missed',
+  [Theme.ENDGAME]: 'Find the winning endgame plan',
+  [Theme.ADVANTAGE]: 'Keep your advantage',
+  [Theme.DEFENSE]: 'Spot the threat',
+};
+
+/**
+ * Runs the engine over every position where the linked user was on move and
+ * records moves whose evaluation swing exceeds the mistake threshold.
+ */
+const mineGame = async (
+  game: ChessGame,
+  engine: IChessEngine,
+  depth: number,
+  thresholdCp: number
+): Promise<MinedMistake[]> => {
+  const userColor = game.userColor;
+  if (!userColor) return [];
+
+  let loaded: { chess: Chess; tree: PgnGame };
+  try {
+    loaded = loadGame(game.pgn);
+  } catch (e) {
+    console.warn(`[Analysis] Skipping Game ${game.id}: PGN parse error.`, e);
     return [];
+  }
+
+  const { chess, tree } = loaded;
+  const history = chess.history({ verbose: true });
+  if (history.length === 0) return [];
+
+  // Evals Lichess embeds as [%eval] (White's view) for the position before `ply`, from the mover's view
+  const embeddedEval = (ply: number): number | undefined => {
+    const node = tree.mainline[ply - 1];
+    if (!node) return undefined;
+    const white = node.evalMate !== undefined ? mateToCp(node.evalMate) : node.evalCp;
+    if (white === undefined) return undefined;
+    const sideToMove = ply < history.length ? history[ply].color : (history[ply - 1].color === 'w' ? 'b' : 'w');
+    return sideToMove === 'w' ? white : -white;
+  };
+  const evalCache = new Map<number, { cp: number; line?: EngineLine; lines: EngineLine[] }>();
+
+  // Positions with the user to move get extra lines so equally good moves can be accepted
+  const evaluate = async (ply: number, multiPv: number = 1) => {
+    const cached = evalCache.get(ply);
+    if (cached) return cached;
+
+    const fen = ply < history.length ? history[ply].before : history[history.length - 1].after;
+    const board = new Chess(fen);
+    let result: { cp: number; line?: EngineLine; lines: EngineLine[] };
+    if (board.isCheckmate()) result = { cp: -MATE_SCORE_CP, lines: [] };
+    else if (board.isDraw() || board.isStalemate()) result = { cp: 0, lines: [] };
+    else {
+      const analysis = await engine.analyse(fen, { depth, multiPv });
+      result = { cp: lineToCp(analysis.lines[0]), line: analysis.lines[0], lines: analysis.lines };
+    }
+    evalCache.set(ply, result);
+    return result;
+  };
+
+  const mistakes: MinedMistake[] = [];
+  for (let ply = 0; ply < history.length; ply++) {
+    const move = history[ply];
+    if (move.color !== userColor) continue;
+
+    // Embedded evals are a cheap prefilter: skip the engine where the game's own analysis shows no swing
+    const hintBefore = embeddedEval(ply);
+    const hintAfter = embeddedEval(ply + 1);
+    if (hintBefore !== undefined && hintAfter !== undefined &&
+        clampEval(hintBefore) - clampEval(-hintAfter) < thresholdCp) continue;
+
+    const before = await evaluate(ply, ENGINE_SETTINGS.alternativeLines);
+    const after = await evaluate(ply + 1);
+    // "after" is from the opponent's point of view
+    const evalBefore = before.cp;
+    const evalAfter = -after.cp;
+    const loss = clampEval(evalBefore) - clampEval(evalAfter);
+
+    if (loss < thresholdCp || !before.line || before.line.pv.length === 0) continue;
+
+    mistakes.push({
+      ply,
+      fen: move.before,
+      evalBefore,
+      evalAfter,
+      loss,
+      bestLineUci: before.line.pv,
+      alternativeLinesUci: before.lines
+        .slice(1)
+        .filter(l => l.pv.length > 0 && l.pv[0] !== move.lan)
+        .filter(l => clampEval(before.cp) - clampEval(lineToCp(l)) <= ENGINE_SETTINGS.alternativeToleranceCp)
+        .map(l => l.pv),
+      playedSan: move.san,
+      timeTrouble: isTimeTroublePly(game, ply),
+    });
+  }
+  return mistakes;
+};
+
+export const generateDrillsFromGames = async (
+  games: ChessGame[],
+  options: MistakeMiningOptions = {}
+): Promise<Drill[]> => {
+  const engine = options.engine ?? new StockfishEngine();
+  const depth = options.depth ?? ENGINE_SETTINGS.depth;
+  const thresholdCp = options.thresholdCp ?? ENGINE_SETTINGS.mistakeThresholdCp;
+  const maxDrillsPerGame = options.maxDrillsPerGame ?? ENGINE_SETTINGS.maxDrillsPerGame;
+
+  const drills: Drill[] = [];
+  try {
+    for (let i = 0; i < games.length; i++) {
+      const game = games[i];
+      let mistakes: MinedMistake[] = [];
+      try {
+        mistakes = await mineGame(game, engine, depth, thresholdCp);
+      } catch (e) {
+        // A search that timed out or lost its worker costs this game, not the whole run
+        console.warn(`[Analysis] Skipping Game ${game.id}: engine analysis failed.`, e);
+      }
+
+      // Errors made with time on the clock say more about understanding than time-scramble slips
+      mistakes
+        .sort((a, b) => Number(a.timeTrouble) - Number(b.timeTrouble) || b.loss - a.loss)
+        .slice(0, maxDrillsPerGame)
+        .forEach(mistake => {
+          const solutionSan = uciLineToSan(mistake.fen, mistake.bestLineUci).slice(0, ENGINE_SETTINGS.maxSolutionPlies);
+          if (solutionSan.length === 0) return;
+          // Shallow searches sometimes disagree with themselves; the game move is not a mistake then.
+          if (solutionSan[0] === mistake.playedSan) return;
+
+          const alternatives = mistake.alternativeLinesUci
+            .map(pv => uciLineToSan(mistake.fen, pv).slice(0, ENGINE_SETTINGS.maxSolutionPlies))
+            .filter(line => line.length > 0 && line[0] !== solutionSan[0])
+            .map(line => ({ san: line[0], continuation: line.length > 1 ? line.slice(1) : undefined }));
+
+          const classification = classifyMotifs(mistake.fen, solutionSan);
+          const theme = inferMistakeTheme(mistake, solutionSan[0], classification.motifs.length > 0);
+          drills.push({
+            id: `drill-engine-${game.id}-${mistake.ply}`,
+            sourceGameId: game.id,
+            sourcePly: mistake.ply,
+            fen: mistake.fen,
+            theme,
+            motifs: classification.motifs,
+            endgameType: classifyEndgame(mistake.fen) || undefined,
+            goal: describeMotifGoal(classification) || THEME_GOALS[theme],
+            solutionSan,
+            alternatives: alternatives.length ? [alternatives] : undefined,
+            playedMoveSan: mistake.playedSan,
+            difficulty: estimateDifficulty(mistake.fen, solutionSan),
+            explanation: `${solutionSan[0]} keeps ${formatEval(mistake.evalBefore)}; ${mistake.playedSan} gave ${formatEval(mistake.evalAfter)}.`,
+            timeTrouble: mistake.timeTrouble || undefined
+          });
+        });
+
+      options.onProgress?.(i + 1, games.length);
+    }
+  } finally {
+    if (!options.engine) engine.terminate();
+  }
+
+  return drills;
 };
@@ -0,0 +1,53 @@
+import { Attempt, CoachResponse, DrillOutcome, Theme } from '../types';
+import { ATTEMPT_HISTORY_LIMIT } from '../constants';
+
+export interface AttemptQuery {
+  drillId?: string;
+  theme?: Theme;
+  from?: number; // Inclusive
+  to?: number; // Exclusive
+  outcomes?: DrillOutcome[];
+  limit?: number;
+}
+
+export interface AttemptSummary {
+  attempts: number;
+  solved: number;
+  solveRate: number; // 0-1
+  averageDurationMs: number;
+}
+
+const SOLVED = new Set([DrillOutcome.PERFECT, DrillOutcome.SLOW_SUCCESS, DrillOutcome.ALTERNATIVE_SUCCESS, DrillOutcome.SUCCESS_WITH_HINT]);
+
+export const recordAttempt = (attempts: Attempt[], attempt: Attempt): Attempt[] =>
+  [...attempts, attempt].slice(-ATTEMPT_HISTORY_LIMIT);
+
+/**
+ * The coach answers after the outcome is recorded, so its verdict is attached afterwards.
+ */
+export const attachCoachVerdict = (attempts: Attempt[], attemptId: string, verdict: CoachResponse['verdict']): Attempt[] =>
+  attempts.map(a => a.id === attemptId ? { ...a, coachVerdict: verdict } : a);
+
+/**
+ * Attempts matching every given filter, newest first.
+ */
+export const queryAttempts = (attempts: Attempt[], query: AttemptQuery = {}): Attempt[] => {
+  const matches = attempts.filter(a =>
+    (!query.drillId || a.drillId === query.drillId) &&
+    (!query.theme || a.theme === query.theme) &&
+    (query.from === undefined || a.timestamp >= query.from) &&
+    (query.to === undefined || a.timestamp < query.to) &&
+    (!query.outcomes || query.outcomes.includes(a.outcome))
+  ).sort((a, b) => b.timestamp - a.timestamp);
+  return query.limit ? matches.slice(0, query.limit) : matches;
+};
+
+export const summarizeAttempts = (attempts: Attempt[]): AttemptSummary => {
+  const solved = attempts.filter(a => SOLVED.has(a.outcome)).length;
+  return {
+    attempts: attempts.length,
+    solved,
+    solveRate: attempts.length ? solved / attempts.length : 0,
+    averageDurationMs: attempts.length ? attempts.reduce((sum, a) => sum + a.durationMs, 0) / attempts.length : 0,
+  };
+};
@@ -1,4 +1,7 @@
 import { ChessGame, TimeControl } from '../types';
+import { resolveUserPerspective } from './playerIdentity';
+import { parsePgn } from './pgnParser';
+import { extractClockData } from './clockService';
 
 const CHESSCOM_API_BASE = 'https://api.chess.com/pub';
 
@@ -12,7 +15,17 @@ const mapTimeClassToTimeControl = (timeClass: string): TimeControl => {
   }
 };
 
-export const fetchChessComGames = async (usernameInput: string, count: number = 20): Promise<ChessGame[]> => {
+// Chess.com only names the opening via its URL slug, e.g. ".../openings/Sicilian-Defense-Najdorf-Variation"
+const openingNameFromUrl = (url?: string): string | undefined => {
+  const slug = url?.split('/').pop();
+  return slug ? decodeURIComponent(slug).replace(/-/g, ' ') : undefined;
+};
+
+export const fetchChessComGames = async (
+  usernameInput: string,
+  count: number = 20,
+  linkedUsernames: string[] = []
+): Promise<ChessGame[]> => {
   // Normalize input
   const username = usernameInput.includes('chess.com') 
   ? usernameInput.split('/').pop()?.trim() || usernameInput 
@@ -53,7 +66,12 @@ export const fetchChessComGames = async (usernameInput: string, count: number =
       .slice(0, count)
       .map((g: any) => {
         try {
-            return {
+            // Abandoned games have no moves; nothing to train on
+            if (!g.pgn) return null;
+            const tree = parsePgn(g.pgn);
+            if (tree.mainline.length === 0) return null;
+
+            const game: ChessGame = {
             id: g.url ? g.url.split('/').pop() : `cc-${Date.now()}-${Math.random()}`,
             white: g.white.username,
             black: g.black.username,
@@ -62,8 +80,13 @@ export const fetchChessComGames = async (usernameInput: string, count: number =
             result: g.white.result === 'win' ? '1-0' : (g.black.result === 'win' ? '0-1' : '1/2-1/2'),
             source: 'chesscom',
             timeControl: mapTimeClassToTimeControl(g.time_class),
-            rated: g.rated || false
-            } as ChessGame;
+            rated: g.rated || false,
+            whiteRating: g.white.rating,
+            blackRating: g.black.rating,
+            opening: { eco: tree.headers.ECO, name: openingNameFromUrl(tree.headers.ECOUrl) },
+            ...extractClockData(tree)
+            };
+            return resolveUserPerspective(game, [username, ...linkedUsernames]);
         } catch (e) { return null; }
       }).filter(Boolean) as ChessGame[];
 
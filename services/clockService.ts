@@ -0,0 +1,174 @@
+import { Move } from 'chess.js';
+import { ChessGame, Drill } from '../types';
+import { CLOCK_SETTINGS } from '../constants';
+import { loadGame, PgnGame } from './pgnParser';
+import { isEndgamePosition } from './endgameService';
+
+export type GamePhase = 'opening' | 'middlegame' | 'endgame';
+
+export interface GameClockReport {
+  gameId: string;
+  timeTroublePlies: number[]; // User moves made in time trouble
+  longThinkPlies: number[]; // User moves with an unusually long think
+  longThinkBlunders: number[]; // Long thinks that still ended in a mistake
+  phases: Record<GamePhase, { moves: number; seconds: number }>;
+}
+
+export interface TimeManagementSummary {
+  gamesAnalyzed: number;
+  userMoves: number;
+  timeTroubleMoves: number;
+  gamesWithTimeTrouble: number;
+  longThinkBlunders: number;
+  phases: Record<GamePhase, { moves: number; seconds: number }>;
+}
+
+const emptyPhases = (): Record<GamePhase, { moves: number; seconds: number }> => ({
+  opening: { moves: 0, seconds: 0 },
+  middlegame: { moves: 0, seconds: 0 },
+  endgame: { moves: 0, seconds: 0 },
+});
+
+/**
+ * Parses a PGN TimeControl header ("180+2", "600"). Daily games ("1/259200") and "-" return null.
+ */
+export const parseTimeControlHeader = (header?: string): { initialSeconds: number; incrementSeconds: number } | null => {
+  const match = header?.match(/^(\d+)(?:\+(\d+))?$/);
+  if (!match) return null;
+  return { initialSeconds: parseInt(match[1], 10), incrementSeconds: match[2] ? parseInt(match[2], 10) : 0 };
+};
+
+/**
+ * Pulls per-ply clock readings out of a parsed game and derives the time spent on each move.
+ * Returns an empty object unless every mainline move carries a %clk.
+ */
+export const extractClockData = (tree: PgnGame): Pick<ChessGame, 'clock' | 'clockSeconds' | 'moveTimes'> => {
+  const clock = parseTimeControlHeader(tree.headers.TimeControl);
+  const clockSeconds = tree.mainline.map(node => node.clockSeconds);
+  if (!clock || clockSeconds.length === 0 || clockSeconds.some(c => c === undefined)) return {};
+
+  const readings = clockSeconds as number[];
+  const moveTimes = readings.map((left, ply) => {
+    const before = ply >= 2 ? readings[ply - 2] : clock.initialSeconds;
+    // The reading after a move already includes the increment
+    return Math.max(0, parseFloat((before - left + clock.incrementSeconds).toFixed(1)));
+  });
+
+  return { clock, clockSeconds: readings, moveTimes };
+};
+
+const hasClockData = (game: ChessGame): boolean =>
+  !!game.clock && !!game.clockSeconds && !!game.moveTimes && game.timeControl !== 'daily';
+
+/**
+ * True if the player on move at `ply` had less than the time-trouble threshold left before moving.
+ */
+export const isTimeTroublePly = (game: ChessGame, ply: number): boolean => {
+  if (!hasClockData(game)) return false;
+  const { initialSeconds } = game.clock!;
+  const before = ply >= 2 ? game.clockSeconds![ply - 2] : initialSeconds;
+  const threshold = Math.max(initialSeconds * CLOCK_SETTINGS.timeTroubleFraction, CLOCK_SETTINGS.timeTroubleMinSeconds);
+  return before < threshold;
+};
+
+const phaseOf = (ply: number, fenBefore: string): GamePhase => {
+  if (ply < CLOCK_SETTINGS.openingPlies) return 'opening';
+  if (isEndgamePosition(fenBefore)) return 'endgame';
+  return 'middlegame';
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Clock report for the linked user's moves in one game.
+ * `mistakePlies` marks moves known to be errors (e.g. from mined drills).
+ */
+export const analyzeGameClock = (game: ChessGame, mistakePlies: Set<number> = new Set()): GameClockReport | null => {
+  if (!hasClockData(game) || !game.userColor) return null;
+
+  let history: Move[];
+  try {
+    history = loadGame(game.pgn).chess.history({ verbose: true });
+  } catch (e) {
+    return null;
+  }
+
+  const moveTimes = game.moveTimes!;
+  const userPlies = history
+    .map((m, ply) => ({ ply, color: m.color }))
+    .filter(m => m.color === game.userColor && m.ply < moveTimes.length)
+    .map(m => m.ply);
+
+  const typical = median(userPlies.map(p => moveTimes[p]));
+  const longThinkThreshold = Math.max(typical * CLOCK_SETTINGS.longThinkFactor, CLOCK_SETTINGS.longThinkMinSeconds);
+
+  const report: GameClockReport = {
+    gameId: game.id,
+    timeTroublePlies: [],
+    longThinkPlies: [],
+    longThinkBlunders: [],
+    phases: emptyPhases(),
+  };
+
+  for (const ply of userPlies) {
+    const spent = moveTimes[ply];
+    const phase = report.phases[phaseOf(ply, history[ply].before)];
+    phase.moves++;
+    phase.seconds += spent;
+
+    if (isTimeTroublePly(game, ply)) report.timeTroublePlies.push(ply);
+    if (spent >= longThinkThreshold) {
+      report.longThinkPlies.push(ply);
+      if (mistakePlies.has(ply)) report.longThinkBlunders.push(ply);
+    }
+  }
+
+  return report;
+};
+
+/**
+ * Drills whose played move differs from the solution point at a mistake in the source game.
+ */
+const collectMistakePlies = (drills: Drill[]): Map<string, Set<number>> => {
+  const byGame = new Map<string, Set<number>>();
+  drills.forEach(d => {
+    if (d.sourcePly === undefined || !d.playedMoveSan || d.playedMoveSan === d.solutionSan[0]) return;
+    if (!byGame.has(d.sourceGameId)) byGame.set(d.sourceGameId, new Set());
+    byGame.get(d.sourceGameId)!.add(d.sourcePly);
+  });
+  return byGame;
+};
+
+export const summarizeTimeManagement = (games: ChessGame[], drills: Drill[]): TimeManagementSummary => {
+  const mistakes = collectMistakePlies(drills);
+  const summary: TimeManagementSummary = {
+    gamesAnalyzed: 0,
+    userMoves: 0,
+    timeTroubleMoves: 0,
+    gamesWithTimeTrouble: 0,
+    longThinkBlunders: 0,
+    phases: emptyPhases(),
+  };
+
+  games.forEach(game => {
+    const report = analyzeGameClock(game, mistakes.get(game.id));
+    if (!report) return;
+
+    summary.gamesAnalyzed++;
+    summary.timeTroubleMoves += report.timeTroublePlies.length;
+    if (report.timeTroublePlies.length > 0) summary.gamesWithTimeTrouble++;
+    summary.longThinkBlunders += report.longThinkBlunders.length;
+    (Object.keys(report.phases) as GamePhase[]).forEach(phase => {
+      summary.userMoves += report.phases[phase].moves;
+      summary.phases[phase].moves += report.phases[phase].moves;
+      summary.phases[phase].seconds += report.phases[phase].seconds;
+    });
+  });
+
+  return summary;
+};
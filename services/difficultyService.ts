@@ -0,0 +1,117 @@
+import { Chess } from 'chess.js';
+import { DifficultyCalibration, DrillOutcome } from '../types';
+
+export interface DifficultyFeatures {
+  solverMoves: number; // Moves the solver has to find
+  legalAlternatives: number; // Legal moves in the start position
+  isQuietKeyMove: boolean; // No check, capture or promotion
+  materialImbalance: number; // Absolute material difference in pawns
+  pieceCount: number; // Non-king, non-pawn pieces on the board
+}
+
+const MATERIAL: Record<string, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 };
+
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 5;
+
+// Attempts needed before a bucket's observed rate carries half the weight.
+const CALIBRATION_PRIOR_ATTEMPTS = 10;
+// How far (in difficulty points) a full miss of the target success rate shifts the estimate.
+const CALIBRATION_SCALE = 4;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const extractDifficultyFeatures = (fen: string, solutionSan: string[]): DifficultyFeatures => {
+  const chess = new Chess(fen);
+  const legalAlternatives = chess.moves().length;
+
+  let white = 0;
+  let black = 0;
+  let pieceCount = 0;
+  for (const row of chess.board()) {
+    for (const cell of row) {
+      if (!cell) continue;
+      if (cell.color === 'w') white += MATERIAL[cell.type];
+      else black += MATERIAL[cell.type];
+      if (cell.type !== 'p' && cell.type !== 'k') pieceCount++;
+    }
+  }
+
+  const keySan = solutionSan[0] || '';
+  return {
+    solverMoves: Math.ceil(solutionSan.length / 2),
+    legalAlternatives,
+    isQuietKeyMove: !/[x+#=]/.test(keySan),
+    materialImbalance: Math.abs(white - black),
+    pieceCount,
+  };
+};
+
+/**
+ * Scores a drill on the 1-5 scale from measurable features.
+ * Longer lines, quiet key moves and crowded boards are harder; lopsided material is easier.
+ */
+export const scoreDifficulty = (features: DifficultyFeatures): number => {
+  let score = MIN_DIFFICULTY;
+  score += 0.6 * (features.solverMoves - 1);
+  score += features.isQuietKeyMove ? 0.8 : 0;
+  score += 0.7 * clamp((features.legalAlternatives - 20) / 20, 0, 1);
+  score += 0.6 * clamp((features.pieceCount - 4) / 10, 0, 1);
+  score -= 0.5 * clamp(features.materialImbalance / 10, 0, 1);
+  return parseFloat(clamp(score, MIN_DIFFICULTY, MAX_DIFFICULTY).toFixed(1));
+};
+
+export const estimateDifficulty = (fen: string, solutionSan: string[]): number => {
+  try {
+    return scoreDifficulty(extractDifficultyFeatures(fen, solutionSan));
+  } catch (e) {
+    console.warn('[Difficulty] Could not estimate difficulty, using midpoint.', e);
+    return 3;
+  }
+};
+
+// --- CALIBRATION ---
+
+export const createInitialCalibration = (): DifficultyCalibration => ({
+  buckets: Array.from({ length: MAX_DIFFICULTY }, () => ({ attempts: 0, successes: 0 }))
+});
+
+// Success rate we expect for a well-estimated drill: 90% at difficulty 1 down to 30% at 5.
+const targetSuccessRate = (difficulty: number) => 0.9 - 0.15 * (difficulty - 1);
+
+const bucketIndex = (difficulty: number) => clamp(Math.round(difficulty), MIN_DIFFICULTY, MAX_DIFFICULTY) - 1;
+
+const isSuccess = (outcome: DrillOutcome) =>
+  outcome === DrillOutcome.PERFECT || outcome === DrillOutcome.SLOW_SUCCESS || outcome === DrillOutcome.ALTERNATIVE_SUCCESS;
+
+/**
+ * Shifts an estimated difficulty by how much users over- or under-perform the target
+ * success rate for that bucket. Buckets with few attempts barely move the estimate.
+ */
+export const calibrateDifficulty = (estimated: number, calibration?: DifficultyCalibration): number => {
+  if (!calibration) return estimated;
+  const bucket = calibration.buckets[bucketIndex(estimated)];
+  if (!bucket || bucket.attempts === 0) return estimated;
+
+  const observed = bucket.successes / bucket.attempts;
+  const weight = bucket.attempts / (bucket.attempts + CALIBRATION_PRIOR_ATTEMPTS);
+  const offset = (targetSuccessRate(estimated) - observed) * CALIBRATION_SCALE * weight;
+  return parseFloat(clamp(estimated + offset, MIN_DIFFICULTY, MAX_DIFFICULTY).toFixed(2));
+};
+
+export const recordCalibrationOutcome = (
+  calibration: DifficultyCalibration | undefined,
+  estimated: number,
+  outcome: DrillOutcome
+): DifficultyCalibration => {
+  if (outcome === DrillOutcome.ABANDONED) return calibration || createInitialCalibration();
+
+  const base = calibration || createInitialCalibration();
+  const index = bucketIndex(estimated);
+  return {
+    buckets: base.buckets.map((b, i) => i !== index ? b : {
+      attempts: b.attempts + 1,
+      successes: b.successes + (isSuccess(outcome) ? 1 : 0)
+    })
+  };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { EndgameType } from '../types';
+import { classifyEndgame, isEndgamePosition } from './endgameService';
+
+describe('isEndgamePosition', () => {
+  it('accepts a rook and two minors per side', () => {
+    expect(isEndgamePosition('2r1kb1n/pp3ppp/8/8/8/8/PP3PPP/2R1KB1N w - - 0 1')).toBe(true);
+  });
+
+  it('rejects two rooks and a bishop per side', () => {
+    expect(isEndgamePosition('2r1kb1r/pp3ppp/8/8/8/8/PP3PPP/2R1KB1R w - - 0 1')).toBe(false);
+  });
+
+  it('accepts a lone queen but not a queen and rook', () => {
+    expect(isEndgamePosition('3qk3/pp3ppp/8/8/8/8/PP3PPP/3QK3 w - - 0 1')).toBe(true);
+    expect(isEndgamePosition('3qk2r/pp3ppp/8/8/8/8/PP3PPP/3QK2R w - - 0 1')).toBe(false);
+  });
+});
+
+describe('classifyEndgame', () => {
+  it('classifies by the pieces left', () => {
+    expect(classifyEndgame('4k3/pp3ppp/8/8/8/8/PP3PPP/4K3 w - - 0 1')).toBe(EndgameType.PAWN);
+    expect(classifyEndgame('r3k3/pp3ppp/8/8/8/8/PP3PPP/R3K3 w - - 0 1')).toBe(EndgameType.ROOK);
+    expect(classifyEndgame('4kb2/pp3ppp/8/8/8/8/PP3PPP/4KB2 w - - 0 1')).toBe(EndgameType.OPPOSITE_BISHOPS);
+    expect(classifyEndgame('2r1kb2/pp3ppp/8/8/8/8/PP3PPP/2R1KB2 w - - 0 1')).toBe(EndgameType.MIXED);
+  });
+
+  it('returns null for a middlegame', () => {
+    expect(classifyEndgame('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1')).toBeNull();
+    expect(classifyEndgame('2r1kb1r/pp3ppp/8/8/8/8/PP3PPP/2R1KB1R w - - 0 1')).toBeNull();
+  });
+});
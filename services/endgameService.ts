@@ -0,0 +1,116 @@
+import { Chess, Color, PieceSymbol, Square } from 'chess.js';
+import { ChessGame, EndgameType } from '../types';
+import { loadGame } from './pgnParser';
+
+const PIECE_MATERIAL: Partial<Record<PieceSymbol, number>> = { n: 3, b: 3, r: 5, q: 9 };
+
+// Without queens, an endgame is reached once each side has at most a rook and two minors' worth.
+const MAX_ENDGAME_MATERIAL = 11;
+
+interface SideMaterial {
+  pieces: PieceSymbol[]; // Non-king, non-pawn pieces
+  material: number;
+  bishopSquares: Square[];
+}
+
+const readSides = (board: Chess): Record<Color, SideMaterial> => {
+  const sides: Record<Color, SideMaterial> = {
+    w: { pieces: [], material: 0, bishopSquares: [] },
+    b: { pieces: [], material: 0, bishopSquares: [] },
+  };
+  for (const row of board.board()) {
+    for (const cell of row) {
+      if (!cell || cell.type === 'k' || cell.type === 'p') continue;
+      const side = sides[cell.color];
+      side.pieces.push(cell.type);
+      side.material += PIECE_MATERIAL[cell.type] || 0;
+      if (cell.type === 'b') side.bishopSquares.push(cell.square);
+    }
+  }
+  return sides;
+};
+
+const isSideInEndgame = (side: SideMaterial): boolean => {
+  if (side.pieces.includes('q')) {
+    // A queen counts as endgame only when it is alone or paired with a single minor piece
+    const others = side.pieces.filter(p => p !== 'q');
+    return side.pieces.filter(p => p === 'q').length === 1 && others.length <= 1 && others.every(p => p === 'n' || p === 'b');
+  }
+  return side.material <= MAX_ENDGAME_MATERIAL;
+};
+
+export const isEndgamePosition = (fen: string): boolean => {
+  const sides = readSides(new Chess(fen));
+  return isSideInEndgame(sides.w) && isSideInEndgame(sides.b);
+};
+
+const squareShade = (sq: Square) => ('abcdefgh'.indexOf(sq[0]) + parseInt(sq[1], 10)) % 2;
+
+/**
+ * Classifies an endgame by the pieces left on the board. Returns null for non-endgame positions.
+ */
+export const classifyEndgame = (fen: string): EndgameType | null => {
+  const board = new Chess(fen);
+  const sides = readSides(board);
+  if (!isSideInEndgame(sides.w) || !isSideInEndgame(sides.b)) return null;
+
+  const all = [...sides.w.pieces, ...sides.b.pieces];
+  if (all.length === 0) return EndgameType.PAWN;
+  if (all.every(p => p === 'r')) return EndgameType.ROOK;
+  if (all.every(p => p === 'q')) return EndgameType.QUEEN;
+  if (all.every(p => p === 'n' || p === 'b')) {
+    const [wb] = sides.w.bishopSquares;
+    const [bb] = sides.b.bishopSquares;
+    if (sides.w.pieces.length === 1 && sides.b.pieces.length === 1 && wb && bb && squareShade(wb) !== squareShade(bb)) {
+      return EndgameType.OPPOSITE_BISHOPS;
+    }
+    return EndgameType.MINOR;
+  }
+  return EndgameType.MIXED;
+};
+
+/**
+ * First ply whose starting position is an endgame, or null if the game never got there.
+ */
+export const findEndgameStart = (fensBefore: string[]): number | null => {
+  const index = fensBefore.findIndex(isEndgamePosition);
+  return index === -1 ? null : index;
+};
+
+export interface EndgameRecord {
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+}
+
+/**
+ * Results of the user's games grouped by the type of endgame they reached.
+ * Conversion rate = (wins + draws / 2) / games.
+ */
+export const summarizeEndgames = (games: ChessGame[]): Partial<Record<EndgameType, EndgameRecord>> => {
+  const summary: Partial<Record<EndgameType, EndgameRecord>> = {};
+
+  games.forEach(game => {
+    if (!game.userColor) return;
+    let fens: string[];
+    try {
+      fens = loadGame(game.pgn).chess.history({ verbose: true }).map(m => m.before);
+    } catch (e) {
+      return;
+    }
+
+    const start = findEndgameStart(fens);
+    if (start === null) return;
+    const type = classifyEndgame(fens[start]);
+    if (!type) return;
+
+    const record = summary[type] || (summary[type] = { games: 0, wins: 0, draws: 0, losses: 0 });
+    record.games++;
+    if (game.result === '1/2-1/2') record.draws++;
+    else if ((game.result === '1-0') === (game.userColor === 'w')) record.wins++;
+    else record.losses++;
+  });
+
+  return summary;
+};
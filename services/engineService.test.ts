@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ENGINE_SETTINGS } from '../constants';
+import { parseInfoLine, StockfishEngine } from './engineService';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+type Script = (worker: FakeWorker) => void;
+
+/**
+ * Stands in for the Stockfish Web Worker: answers the UCI handshake and replies to
+ * "go" and "stop" with the scripts the test queued.
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  static goScripts: Script[] = [];
+  static onStop: Script = () => {};
+  static silentHandshakes = 0; // Workers that load but never answer "uci"
+
+  onmessage: ((e: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  received: string[] = [];
+  terminated = false;
+
+  private silent: boolean;
+
+  constructor(public url: string) {
+    FakeWorker.instances.push(this);
+    this.silent = FakeWorker.silentHandshakes > 0;
+    if (this.silent) FakeWorker.silentHandshakes--;
+  }
+
+  postMessage(command: string) {
+    this.received.push(command);
+    if (this.silent) return;
+    if (command === 'uci') this.emit('uciok');
+    else if (command === 'isready') this.emit('readyok');
+    else if (command.startsWith('go')) FakeWorker.goScripts.shift()?.(this);
+    else if (command === 'stop') FakeWorker.onStop(this);
+  }
+
+  emit(line: string) {
+    queueMicrotask(() => this.onmessage?.({ data: line }));
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const answer = (bestMove: string, scoreCp = 20): Script => worker => {
+  worker.emit(`info depth 12 multipv 1 score cp ${scoreCp} pv ${bestMove}`);
+  worker.emit(`bestmove ${bestMove}`);
+};
+const silence: Script = () => {};
+
+const latestWorker = () => FakeWorker.instances[FakeWorker.instances.length - 1];
+
+describe('parseInfoLine', () => {
+  it('reads depth, multipv, score and pv', () => {
+    expect(parseInfoLine('info depth 14 seldepth 20 multipv 2 score cp -35 nodes 1000 pv e7e5 g1f3')).toEqual({
+      multiPv: 2, depth: 14, scoreCp: -35, pv: ['e7e5', 'g1f3'],
+    });
+    expect(parseInfoLine('info depth 9 score mate -3 pv h7h6')).toMatchObject({ mate: -3 });
+  });
+
+  it('ignores info lines without a principal variation', () => {
+    expect(parseInfoLine('info depth 5 currmove e2e4 currmovenumber 1')).toBeNull();
+    expect(parseInfoLine('bestmove e2e4')).toBeNull();
+  });
+});
+
+describe('StockfishEngine', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    FakeWorker.goScripts = [];
+    FakeWorker.onStop = () => {};
+    FakeWorker.silentHandshakes = 0;
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the best move and lines of a search', async () => {
+    FakeWorker.goScripts = [answer('e2e4', 30)];
+    const analysis = await new StockfishEngine('fake.js').analyse(START_FEN, { depth: 12 });
+
+    expect(analysis.bestMove).toBe('e2e4');
+    expect(analysis.lines).toEqual([{ multiPv: 1, depth: 12, scoreCp: 30, pv: ['e2e4'] }]);
+    expect(latestWorker().received).toContain('go depth 12');
+  });
+
+  it('stops and rejects a search that never finishes, without leaking its bestmove into the next one', async () => {
+    FakeWorker.goScripts = [silence, answer('d2d4')];
+    FakeWorker.onStop = worker => worker.emit('bestmove a2a3');
+    const engine = new StockfishEngine('fake.js');
+
+    const stuck = expect(engine.analyse(START_FEN, { timeoutMs: 1000 })).rejects.toThrow('timed out after 1000ms');
+    const next = engine.analyse(START_FEN);
+    await vi.advanceTimersByTimeAsync(1000);
+    await stuck;
+
+    expect((await next).bestMove).toBe('d2d4');
+    expect(latestWorker().received).toContain('stop');
+    expect(FakeWorker.instances).toHaveLength(1);
+  });
+
+  it('restarts an engine that does not answer "stop"', async () => {
+    FakeWorker.goScripts = [silence, answer('g1f3')];
+    const engine = new StockfishEngine('fake.js');
+
+    const stuck = expect(engine.analyse(START_FEN, { timeoutMs: 1000 })).rejects.toThrow('timed out');
+    const next = engine.analyse(START_FEN);
+    await vi.advanceTimersByTimeAsync(1000 + ENGINE_SETTINGS.stopGraceMs);
+    await stuck;
+
+    expect((await next).bestMove).toBe('g1f3');
+    expect(FakeWorker.instances).toHaveLength(2);
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('rejects the running search when the worker errors, then starts a fresh worker', async () => {
+    FakeWorker.goScripts = [worker => worker.onerror?.(), answer('c2c4')];
+    const engine = new StockfishEngine('fake.js');
+
+    await expect(engine.analyse(START_FEN)).rejects.toThrow('Engine worker error');
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+
+    expect((await engine.analyse(START_FEN)).bestMove).toBe('c2c4');
+    expect(FakeWorker.instances).toHaveLength(2);
+  });
+
+  it('gives up on a worker that never finishes the handshake, then retries with a fresh one', async () => {
+    FakeWorker.silentHandshakes = 1;
+    FakeWorker.goScripts = [answer('b1c3')];
+    const engine = new StockfishEngine('fake.js');
+
+    const stalled = expect(engine.analyse(START_FEN)).rejects.toThrow('UCI handshake');
+    await vi.advanceTimersByTimeAsync(ENGINE_SETTINGS.handshakeTimeoutMs);
+    await stalled;
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+
+    expect((await engine.analyse(START_FEN)).bestMove).toBe('b1c3');
+    expect(FakeWorker.instances).toHaveLength(2);
+  });
+
+  it('rejects a pending search on terminate', async () => {
+    FakeWorker.goScripts = [silence];
+    const engine = new StockfishEngine('fake.js');
+
+    const pending = expect(engine.analyse(START_FEN)).rejects.toThrow('Engine terminated');
+    await vi.advanceTimersByTimeAsync(0);
+    engine.terminate();
+    await pending;
+  });
+});
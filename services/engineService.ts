@@ -0,0 +1,181 @@
+import { EngineAnalysis, EngineLine, EngineSearchOptions, IChessEngine } from '../types';
+import { ENGINE_SETTINGS } from '../constants';
+
+/**
+ * Parses a UCI "info" line into an EngineLine.
+ * Returns null for info lines that carry no principal variation (currmove, nps, etc).
+ */
+export const parseInfoLine = (line: string): EngineLine | null => {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0] !== 'info') return null;
+
+  const pvIndex = tokens.indexOf('pv');
+  if (pvIndex === -1) return null;
+
+  const result: EngineLine = { multiPv: 1, depth: 0, pv: tokens.slice(pvIndex + 1) };
+
+  for (let i = 1; i < pvIndex; i++) {
+    switch (tokens[i]) {
+      case 'depth': result.depth = parseInt(tokens[++i], 10); break;
+      case 'multipv': result.multiPv = parseInt(tokens[++i], 10); break;
+      case 'score': {
+        const kind = tokens[++i];
+        const value = parseInt(tokens[++i], 10);
+        if (kind === 'cp') result.scoreCp = value;
+        else if (kind === 'mate') result.mate = value;
+        break;
+      }
+    }
+  }
+  return result;
+};
+
+/**
+ * Stockfish (WASM) running inside a Web Worker, spoken to over UCI.
+ * Searches are serialized: UCI engines only handle one "go" at a time.
+ */
+export class StockfishEngine implements IChessEngine {
+  private worker: Worker | null = null;
+  private ready: Promise<void> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private listener: ((line: string) => void) | null = null;
+  // Rejects the search in progress, if any
+  private failSearch: ((error: Error) => void) | null = null;
+
+  constructor(private workerUrl: string = ENGINE_SETTINGS.workerUrl) {}
+
+  private send(command: string) {
+    this.worker?.postMessage(command);
+  }
+
+  private waitFor(token: string): Promise<void> {
+    return new Promise(resolve => {
+      this.listener = (line) => {
+        if (line.startsWith(token)) {
+          this.listener = null;
+          resolve();
+        }
+      };
+    });
+  }
+
+  private init(): Promise<void> {
+    if (this.ready) return this.ready;
+
+    const ready = new Promise<void>((resolve, reject) => {
+      try {
+        this.worker = new Worker(this.workerUrl);
+      } catch (e) {
+        reject(new Error(`Engine worker failed to start (${this.workerUrl})`));
+        return;
+      }
+
+      // A worker that loads but never finishes the handshake (wrong build, stalled WASM fetch)
+      const timer = setTimeout(() => {
+        reject(new Error(`Engine did not answer the UCI handshake within ${ENGINE_SETTINGS.handshakeTimeoutMs}ms (${this.workerUrl})`));
+        this.terminate();
+      }, ENGINE_SETTINGS.handshakeTimeoutMs);
+
+      this.worker.onmessage = (e: MessageEvent) => {
+        const line = typeof e.data === 'string' ? e.data : String(e.data);
+        this.listener?.(line);
+      };
+      this.worker.onerror = () => {
+        const error = new Error(`Engine worker error (${this.workerUrl})`);
+        clearTimeout(timer);
+        reject(error);
+        // The worker is unusable: fail the running search and start a fresh one next time
+        this.failSearch?.(error);
+        this.terminate();
+      };
+
+      const uciOk = this.waitFor('uciok');
+      this.send('uci');
+      uciOk
+        .then(() => {
+          const readyOk = this.waitFor('readyok');
+          this.send('isready');
+          return readyOk;
+        })
+        .then(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+    });
+
+    this.ready = ready;
+    // A failed start is retried on the next call
+    ready.catch(() => { if (this.ready === ready) this.ready = null; });
+    return ready;
+  }
+
+  public analyse(fen: string, options: EngineSearchOptions = {}): Promise<EngineAnalysis> {
+    const run = async (): Promise<EngineAnalysis> => {
+      await this.init();
+      const depth = options.depth ?? ENGINE_SETTINGS.depth;
+      const multiPv = options.multiPv ?? 1;
+      const timeoutMs = options.timeoutMs ?? ENGINE_SETTINGS.searchTimeoutMs;
+      const lines = new Map<number, EngineLine>();
+
+      const done = new Promise<string | null>((resolve, reject) => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let grace: ReturnType<typeof setTimeout> | undefined;
+        const settle = () => {
+          clearTimeout(timer);
+          clearTimeout(grace);
+          this.listener = null;
+          this.failSearch = null;
+        };
+        this.failSearch = (error) => { settle(); reject(error); };
+
+        this.listener = (line) => {
+          if (line.startsWith('info')) {
+            const parsed = parseInfoLine(line);
+            if (parsed) lines.set(parsed.multiPv, parsed);
+          } else if (line.startsWith('bestmove')) {
+            settle();
+            const move = line.split(/\s+/)[1];
+            resolve(!move || move === '(none)' ? null : move);
+          }
+        };
+
+        timer = setTimeout(() => {
+          const error = new Error(`Engine search timed out after ${timeoutMs}ms`);
+          // Wait for the stopped search's "bestmove" so it cannot answer the next search;
+          // an engine that stays silent is restarted instead.
+          grace = setTimeout(() => {
+            this.failSearch?.(error);
+            this.terminate();
+          }, ENGINE_SETTINGS.stopGraceMs);
+          this.listener = (line) => {
+            if (line.startsWith('bestmove')) this.failSearch?.(error);
+          };
+          this.send('stop');
+        }, timeoutMs);
+      });
+
+      this.send(`setoption name MultiPV value ${multiPv}`);
+      this.send(`position fen ${fen}`);
+      this.send(`go depth ${depth}`);
+
+      const bestMove = await done;
+      return {
+        fen,
+        bestMove,
+        lines: [...lines.values()].sort((a, b) => a.multiPv - b.multiPv)
+      };
+    };
+
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  public terminate() {
+    this.failSearch?.(new Error('Engine terminated'));
+    this.worker?.terminate();
+    this.worker = null;
+    this.ready = null;
+    this.listener = null;
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DrillOutcome, DrillSchedule } from '../types';
+import { Sm2Scheduler } from './scheduler';
+import { compareNewDrillLimits, forecastDueCounts, OUTCOME_PRESETS, simulateSchedule } from './forecastService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 2, 10, 12).getTime();
+
+const scheduler = new Sm2Scheduler();
+
+const played = (drillId: string, nextDueAt: number): DrillSchedule => ({
+  ...scheduler.createInitialSchedule(drillId, NOW - 5 * DAY_MS),
+  nextDueAt,
+  reviews: [{ reviewedAt: NOW - 5 * DAY_MS, outcome: DrillOutcome.PERFECT }],
+});
+
+describe('forecastDueCounts', () => {
+  it('buckets drills by the day they fall due, with overdue drills today', () => {
+    const counts = forecastDueCounts({
+      overdue: played('overdue', NOW - 2 * DAY_MS),
+      today: played('today', NOW + 60 * 60 * 1000),
+      tomorrow: played('tomorrow', NOW + DAY_MS),
+      later: played('later', NOW + 40 * DAY_MS),
+    }, NOW, 30);
+
+    expect(counts).toHaveLength(30);
+    expect(counts[0]).toBe(2);
+    expect(counts[1]).toBe(1);
+    expect(counts.reduce((a, b) => a + b, 0)).toBe(3);
+  });
+
+  it('counts drills that were never played as due today and leaves out suspended ones', () => {
+    const counts = forecastDueCounts({
+      fresh: scheduler.createInitialSchedule('fresh', NOW - 3 * DAY_MS),
+      suspended: { ...played('suspended', NOW), suspended: true },
+    }, NOW);
+
+    expect(counts[0]).toBe(1);
+    expect(counts.reduce((a, b) => a + b, 0)).toBe(1);
+  });
+});
+
+describe('simulateSchedule', () => {
+  const options = { scheduler, days: 30, newPerDay: 5, distribution: OUTCOME_PRESETS.average.distribution };
+
+  it('gives the same run for the same seed and a different one for another seed', () => {
+    const run = simulateSchedule({ ...options, seed: 7 });
+    expect(simulateSchedule({ ...options, seed: 7 })).toEqual(run);
+    expect(simulateSchedule({ ...options, seed: 8 })).not.toEqual(run);
+  });
+
+  it('counts the same-day learning steps of new drills as reviews', () => {
+    // A slow first answer moves on to the 10-minute step, which graduates the drill to days
+    const [slow] = simulateSchedule({ ...options, days: 1, newPerDay: 3, distribution: { [DrillOutcome.SLOW_SUCCESS]: 1 } });
+    expect(slow).toMatchObject({ newDrills: 3, reviews: 3 });
+
+    // A perfect first answer skips the steps
+    const [perfect] = simulateSchedule({ ...options, days: 1, newPerDay: 3, distribution: { [DrillOutcome.PERFECT]: 1 } });
+    expect(perfect.reviews).toBe(0);
+  });
+
+  it('stops repeating a drill that never leaves its learning steps within the day', () => {
+    const [day] = simulateSchedule({ ...options, days: 1, newPerDay: 1, distribution: { [DrillOutcome.FAILURE]: 1 } });
+    expect(day.reviews).toBe(9);
+  });
+});
+
+describe('compareNewDrillLimits', () => {
+  it('runs one simulation per limit, with more new drills meaning more reviews', () => {
+    const runs = compareNewDrillLimits([2, 10], { scheduler, days: 14, distribution: OUTCOME_PRESETS.average.distribution });
+    const total = (limit: number) => runs[limit].reduce((sum, d) => sum + d.reviews, 0);
+
+    expect(Object.keys(runs)).toEqual(['2', '10']);
+    expect(runs[2].every(d => d.newDrills === 2)).toBe(true);
+    expect(total(10)).toBeGreaterThan(total(2));
+  });
+});
@@ -0,0 +1,128 @@
+import { DrillOutcome, DrillSchedule, IScheduler, SkillState } from '../types';
+import { createInitialSkill, updateSkill } from './skillService';
+import { createRng, Rng } from './random';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Safety net against a scheduler that keeps a drill due within the same day forever
+const MAX_SAME_DAY_REVIEWS = 10;
+
+const startOfDay = (now: number) => {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+/**
+ * Drills falling due on each of the next `days` days. Overdue drills, and new drills that
+ * have never been played, count towards today; suspended drills are left out.
+ */
+export const forecastDueCounts = (schedules: Record<string, DrillSchedule>, now: number, days: number = 30): number[] => {
+  const counts = new Array(days).fill(0);
+  const today = startOfDay(now);
+  (Object.values(schedules) as DrillSchedule[]).forEach(schedule => {
+    if (schedule.suspended) return;
+    const day = Math.max(0, Math.floor((schedule.nextDueAt - today) / DAY_MS));
+    if (day < days) counts[day]++;
+  });
+  return counts;
+};
+
+// --- SIMULATION ---
+
+export type OutcomeDistribution = Partial<Record<DrillOutcome, number>>;
+
+export const OUTCOME_PRESETS: Record<'strong' | 'average' | 'struggling', { label: string; distribution: OutcomeDistribution }> = {
+  strong: { label: 'Strong', distribution: { [DrillOutcome.PERFECT]: 0.6, [DrillOutcome.SLOW_SUCCESS]: 0.25, [DrillOutcome.SUCCESS_WITH_HINT]: 0.1, [DrillOutcome.FAILURE]: 0.05 } },
+  average: { label: 'Average', distribution: { [DrillOutcome.PERFECT]: 0.35, [DrillOutcome.SLOW_SUCCESS]: 0.3, [DrillOutcome.SUCCESS_WITH_HINT]: 0.15, [DrillOutcome.FAILURE]: 0.2 } },
+  struggling: { label: 'Struggling', distribution: { [DrillOutcome.PERFECT]: 0.15, [DrillOutcome.SLOW_SUCCESS]: 0.25, [DrillOutcome.SUCCESS_WITH_HINT]: 0.2, [DrillOutcome.FAILURE]: 0.4 } },
+};
+
+export interface SimulationOptions {
+  scheduler: IScheduler;
+  days: number;
+  newPerDay: number;
+  distribution: OutcomeDistribution;
+  startSchedules?: DrillSchedule[]; // Existing workload carried into the simulation
+  startSkill?: SkillState;
+  drillDifficulty?: number; // 1-5; synthetic drills are drawn around this
+  seed?: number;
+}
+
+export interface SimulatedDay {
+  day: number;
+  reviews: number; // Repeat reviews, including same-day learning steps
+  newDrills: number;
+  mastery: number; // Skill mastery at the end of the day
+}
+
+const sampleOutcome = (rng: Rng, distribution: OutcomeDistribution): DrillOutcome => {
+  const entries = Object.entries(distribution) as [DrillOutcome, number][];
+  const total = entries.reduce((sum, [, p]) => sum + p, 0);
+  let r = rng() * total;
+  for (const [outcome, p] of entries) {
+    r -= p;
+    if (r < 0) return outcome;
+  }
+  return entries[entries.length - 1]?.[0] ?? DrillOutcome.SLOW_SUCCESS;
+};
+
+/**
+ * Runs the scheduler and the skill model day by day against sampled outcomes.
+ * Each day: due drills are reviewed (learning steps repeat within the day), then
+ * `newPerDay` new drills are introduced.
+ */
+export const simulateSchedule = (options: SimulationOptions): SimulatedDay[] => {
+  const { scheduler, days, newPerDay, distribution, drillDifficulty = 3 } = options;
+  const rng = createRng(options.seed ?? 1);
+  const start = startOfDay(Date.now());
+  let skill = options.startSkill ?? createInitialSkill();
+  let schedules = (options.startSchedules || []).filter(s => !s.suspended);
+  let nextId = 0;
+
+  const review = (schedule: DrillSchedule, now: number) => {
+    const outcome = sampleOutcome(rng, distribution);
+    const difficulty = Math.max(1, Math.min(5, drillDifficulty + (rng() - 0.5) * 2));
+    skill = updateSkill(skill, outcome, difficulty);
+    return scheduler.calculateNext(schedule, outcome, now);
+  };
+
+  const result: SimulatedDay[] = [];
+  for (let day = 0; day < days; day++) {
+    const dayStart = start + day * DAY_MS;
+    const dayEnd = dayStart + DAY_MS;
+    let reviews = 0;
+
+    // Sessions run at mid-morning; learning steps come back minutes later the same day
+    let clock = dayStart + 10 * 60 * 60 * 1000;
+    for (let pass = 0; pass < MAX_SAME_DAY_REVIEWS; pass++) {
+      const due = schedules.filter(s => s.nextDueAt < dayEnd);
+      if (due.length === 0) break;
+      const dueIds = new Set(due.map(s => s.drillId));
+      schedules = schedules.map(s => dueIds.has(s.drillId) ? review(s, Math.max(clock, s.nextDueAt)) : s);
+      reviews += due.length;
+      clock += 15 * 60 * 1000;
+    }
+
+    for (let i = 0; i < newPerDay; i++) {
+      let schedule = scheduler.createInitialSchedule(`sim-${nextId++}`, clock);
+      // New drills go through their learning steps on the day they are introduced
+      for (let pass = 0; pass < MAX_SAME_DAY_REVIEWS && schedule.nextDueAt < dayEnd; pass++) {
+        schedule = review(schedule, Math.max(clock, schedule.nextDueAt));
+        if (pass > 0) reviews++;
+      }
+      schedules.push(schedule);
+    }
+
+    result.push({ day, reviews, newDrills: newPerDay, mastery: skill.mastery });
+  }
+  return result;
+};
+
+/**
+ * One simulation per daily-new-drill limit, with the same seed so the runs differ only in the limit.
+ */
+export const compareNewDrillLimits = (limits: number[], options: Omit<SimulationOptions, 'newPerDay'>): Record<number, SimulatedDay[]> => {
+  const runs: Record<number, SimulatedDay[]> = {};
+  limits.forEach(limit => { runs[limit] = simulateSchedule({ ...options, newPerDay: limit }); });
+  return runs;
+};
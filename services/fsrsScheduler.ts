@@ -0,0 +1,237 @@
+import { DrillOutcome, DrillSchedule, IScheduler, SchedulerType, ScheduleReview, ScheduleState } from '../types';
+import { FSRS_SETTINGS, INITIAL_SCHEDULE_SETTINGS } from '../constants';
+import { appendReview, countLapse, nextLearningStep, resolveScheduleState } from './scheduler';
+
+/**
+ * FSRS (Free Spaced Repetition Scheduler), version 4.5.
+ *
+ * Each drill carries a memory state: stability S (days until recall probability
+ * drops to 90%) and difficulty D (1-10). Retrievability R is derived from the time
+ * since the last review, and the next interval is the time for R to fall to the
+ * desired retention.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // Chosen so that R(S, S) = 0.9
+
+type Rating = 1 | 2 | 3 | 4; // Again, Hard, Good, Easy
+
+export interface FsrsMemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const mapOutcomeToRating = (outcome: DrillOutcome): Rating => {
+  switch (outcome) {
+    case DrillOutcome.PERFECT: return 4;
+    case DrillOutcome.SLOW_SUCCESS: return 3;
+    case DrillOutcome.ALTERNATIVE_SUCCESS: return 3;
+    case DrillOutcome.SUCCESS_WITH_HINT: return 2;
+    case DrillOutcome.FAILURE: return 1;
+    case DrillOutcome.ABANDONED: return 1;
+    default: return 3;
+  }
+};
+
+export const retrievability = (elapsedDays: number, stability: number): number =>
+  Math.pow(1 + FACTOR * Math.max(0, elapsedDays) / stability, DECAY);
+
+const initialStability = (w: number[], rating: Rating) => Math.max(0.1, w[rating - 1]);
+
+const initialDifficulty = (w: number[], rating: Rating) => clamp(w[4] - w[5] * (rating - 3), 1, 10);
+
+const nextDifficulty = (w: number[], d: number, rating: Rating) => {
+  const shifted = d - w[6] * (rating - 3);
+  // Mean reversion towards the difficulty of a "Good" first review
+  return clamp(w[7] * initialDifficulty(w, 3) + (1 - w[7]) * shifted, 1, 10);
+};
+
+const nextRecallStability = (w: number[], d: number, s: number, r: number, rating: Rating) => {
+  const hardPenalty = rating === 2 ? w[15] : 1;
+  const easyBonus = rating === 4 ? w[16] : 1;
+  return s * (Math.exp(w[8]) * (11 - d) * Math.pow(s, -w[9]) * (Math.exp(w[10] * (1 - r)) - 1) * hardPenalty * easyBonus + 1);
+};
+
+const nextForgetStability = (w: number[], d: number, s: number, r: number) =>
+  Math.min(s, w[11] * Math.pow(d, -w[12]) * (Math.pow(s + 1, w[13]) - 1) * Math.exp(w[14] * (1 - r)));
+
+/**
+ * Advances a memory state by one review. `state` is undefined for a drill's first review.
+ */
+export const reviewMemoryState = (
+  w: number[],
+  state: FsrsMemoryState | undefined,
+  elapsedDays: number,
+  rating: Rating
+): FsrsMemoryState => {
+  if (!state) return { stability: initialStability(w, rating), difficulty: initialDifficulty(w, rating) };
+
+  const r = retrievability(elapsedDays, state.stability);
+  const stability = rating === 1
+    ? nextForgetStability(w, state.difficulty, state.stability, r)
+    : nextRecallStability(w, state.difficulty, state.stability, r, rating);
+  return { stability: Math.max(0.1, stability), difficulty: nextDifficulty(w, state.difficulty, rating) };
+};
+
+export const intervalForStability = (stability: number, desiredRetention: number = FSRS_SETTINGS.desiredRetention): number => {
+  const days = stability / FACTOR * (Math.pow(desiredRetention, 1 / DECAY) - 1);
+  return clamp(Math.round(days), 1, FSRS_SETTINGS.maximumInterval);
+};
+
+export class FsrsScheduler implements IScheduler {
+  public readonly type = SchedulerType.FSRS;
+  private readonly w: number[];
+
+  constructor(parameters: number[] = FSRS_SETTINGS.defaultParameters) {
+    this.w = parameters.length === FSRS_SETTINGS.defaultParameters.length ? parameters : FSRS_SETTINGS.defaultParameters;
+  }
+
+  public createInitialSchedule(drillId: string, now: number = Date.now()): DrillSchedule {
+    return {
+      drillId,
+      nextDueAt: now,
+      interval: 0,
+      repetition: 0,
+      easeFactor: INITIAL_SCHEDULE_SETTINGS.initialEase,
+      algorithm: SchedulerType.FSRS,
+      state: ScheduleState.NEW,
+    };
+  }
+
+  public calculateNext(current: DrillSchedule, outcome: DrillOutcome, now: number = Date.now()): DrillSchedule {
+    const rating = mapOutcomeToRating(outcome);
+    const previous = current.stability !== undefined && current.difficulty !== undefined
+      ? { stability: current.stability, difficulty: current.difficulty }
+      : undefined;
+    const elapsedDays = current.lastReviewedAt ? (now - current.lastReviewedAt) / DAY_MS : 0;
+
+    const state = reviewMemoryState(this.w, previous, elapsedDays, rating);
+    const lapsed = resolveScheduleState(current) === ScheduleState.REVIEW && rating === 1;
+    const memory = {
+      algorithm: SchedulerType.FSRS,
+      stability: state.stability,
+      difficulty: state.difficulty,
+      lastReviewedAt: now,
+      ...countLapse(current, rating === 1, now),
+      reviews: appendReview(current, outcome, now),
+    };
+
+    // The memory state updates on every review; steps only decide when the drill is shown next
+    const learningStep = nextLearningStep(current, rating > 1, rating === 4, now);
+    if (learningStep) {
+      return {
+        ...current,
+        ...memory,
+        nextDueAt: learningStep.dueAt,
+        interval: 0,
+        repetition: lapsed ? 0 : current.repetition,
+        state: learningStep.state,
+        step: learningStep.step,
+      };
+    }
+
+    const interval = intervalForStability(state.stability);
+    return {
+      ...current,
+      ...memory,
+      nextDueAt: now + interval * DAY_MS,
+      interval,
+      // Kept up to date so a switch back to SM-2 continues sensibly
+      repetition: rating === 1 ? 0 : current.repetition + 1,
+      state: ScheduleState.REVIEW,
+      step: undefined,
+    };
+  }
+}
+
+/**
+ * Estimates FSRS memory state from SM-2 fields. At the default 90% retention an FSRS
+ * interval equals the stability, so the SM-2 interval is a fair stability estimate;
+ * ease 2.5 (the SM-2 default) maps to a middling difficulty of 5 and the 1.3 floor to 10.
+ */
+export const memoryStateFromSm2 = (schedule: DrillSchedule): FsrsMemoryState | undefined => {
+  if (schedule.repetition === 0 && schedule.interval === 0) return undefined;
+  return {
+    stability: Math.max(0.5, schedule.interval),
+    difficulty: clamp(5 + (INITIAL_SCHEDULE_SETTINGS.initialEase - schedule.easeFactor) * (5 / 1.2), 1, 10),
+  };
+};
+
+// --- PARAMETER OPTIMISATION ---
+
+interface ReviewPair {
+  elapsedDays: number;
+  rating: Rating;
+}
+
+const toReviewSequence = (reviews: ScheduleReview[]): ReviewPair[] =>
+  reviews.map((review, i) => ({
+    elapsedDays: i === 0 ? 0 : (review.reviewedAt - reviews[i - 1].reviewedAt) / DAY_MS,
+    rating: mapOutcomeToRating(review.outcome),
+  }));
+
+/**
+ * Mean log-loss of the recall predictions the weights make for every repeat review.
+ */
+const logLoss = (w: number[], sequences: ReviewPair[][]): number => {
+  let total = 0;
+  let count = 0;
+  for (const sequence of sequences) {
+    let state: FsrsMemoryState | undefined;
+    for (const review of sequence) {
+      if (state) {
+        const r = clamp(retrievability(review.elapsedDays, state.stability), 0.0001, 0.9999);
+        const recalled = review.rating > 1;
+        total -= recalled ? Math.log(r) : Math.log(1 - r);
+        count++;
+      }
+      state = reviewMemoryState(w, state, review.elapsedDays, review.rating);
+    }
+  }
+  return count ? total / count : 0;
+};
+
+export const countRepeatReviews = (schedules: DrillSchedule[]): number =>
+  schedules.reduce((sum, s) => sum + Math.max(0, (s.reviews?.length || 0) - 1), 0);
+
+/**
+ * Fits FSRS weights to the user's own review history with a bounded coordinate search
+ * starting from `initial`. Returns null when there are too few repeat reviews to trust.
+ */
+export const optimizeFsrsParameters = (
+  schedules: DrillSchedule[],
+  initial: number[] = FSRS_SETTINGS.defaultParameters,
+  rounds: number = 6
+): { parameters: number[]; lossBefore: number; lossAfter: number } | null => {
+  if (countRepeatReviews(schedules) < FSRS_SETTINGS.minReviewsToOptimize) return null;
+
+  const sequences = schedules
+    .filter(s => (s.reviews?.length || 0) > 1)
+    .map(s => toReviewSequence(s.reviews!));
+
+  const w = [...initial];
+  const lossBefore = logLoss(w, sequences);
+  let best = lossBefore;
+  let step = 0.2;
+
+  for (let round = 0; round < rounds; round++) {
+    for (let i = 0; i < w.length; i++) {
+      for (const direction of [1, -1]) {
+        const candidate = [...w];
+        candidate[i] = Math.max(0.001, w[i] * (1 + direction * step));
+        const loss = logLoss(candidate, sequences);
+        if (loss < best) {
+          best = loss;
+          w[i] = candidate[i];
+          break;
+        }
+      }
+    }
+    step /= 2;
+  }
+
+  return { parameters: w.map(x => parseFloat(x.toFixed(4))), lossBefore, lossAfter: best };
+};
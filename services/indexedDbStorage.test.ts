@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { Attempt, ChessGame, Drill, DrillOutcome, DrillSchedule, Theme, UserProfile } from '../types';
+import { DEFAULT_TIME_CONTROLS, STORAGE_KEYS } from './localStorageBackend';
+import { IndexedDbBackend } from './indexedDbStorage';
+
+class MemoryStorage {
+  items = new Map<string, string>();
+  getItem(key: string) { return this.items.has(key) ? this.items.get(key)! : null; }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+  removeItem(key: string) { this.items.delete(key); }
+  clear() { this.items.clear(); }
+}
+
+const game = (id: string): ChessGame => ({
+  id, white: 'a', black: 'b', pgn: '1. e4 *', date: '2026-01-01', result: '*', source: 'lichess', timeControl: 'blitz', rated: true,
+});
+
+const user = { id: 'u1', accounts: [{ provider: 'lichess', username: 'me' }] } as unknown as UserProfile;
+const drill = { id: 'd1', theme: Theme.TACTICS } as unknown as Drill;
+const schedule = { drillId: 'd1', nextDueAt: 1000 } as DrillSchedule;
+const attempt = { id: 'a1', drillId: 'd1', theme: Theme.TACTICS, timestamp: 1000, outcome: DrillOutcome.PERFECT } as unknown as Attempt;
+
+describe('IndexedDbBackend', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('localStorage', storage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('starts empty without legacy data', async () => {
+    const backend = new IndexedDbBackend();
+    expect(await backend.loadUser()).toBeNull();
+    expect(await backend.loadGames()).toEqual([]);
+    expect(await backend.loadTimeControls()).toEqual(DEFAULT_TIME_CONTROLS);
+  });
+
+  it('imports the coachreps_* localStorage keys on first open, then frees them', async () => {
+    storage.setItem(STORAGE_KEYS.USER, JSON.stringify(user));
+    storage.setItem(STORAGE_KEYS.RAW_GAMES, JSON.stringify([game('g1'), game('g2')]));
+    storage.setItem(STORAGE_KEYS.DRILLS, JSON.stringify([drill]));
+    storage.setItem(STORAGE_KEYS.SCHEDULES, JSON.stringify({ d1: schedule }));
+    storage.setItem(STORAGE_KEYS.ATTEMPTS, JSON.stringify([attempt]));
+    storage.setItem(STORAGE_KEYS.PREFS_TC, JSON.stringify(['bullet']));
+
+    const backend = new IndexedDbBackend();
+    expect(await backend.loadUser()).toEqual(user);
+    expect((await backend.loadGames()).map(g => g.id)).toEqual(['g1', 'g2']);
+    expect(await backend.loadDrills()).toEqual([drill]);
+    expect(await backend.loadSchedules()).toEqual({ d1: schedule });
+    expect(await backend.loadAttempts()).toEqual([attempt]);
+    expect(await backend.loadTimeControls()).toEqual(['bullet']);
+    expect(storage.items.size).toBe(0);
+  });
+
+  it('skips unreadable legacy records and keeps the rest', async () => {
+    storage.setItem(STORAGE_KEYS.RAW_GAMES, JSON.stringify([{ white: 'no id' }, game('g1')]));
+    storage.setItem(STORAGE_KEYS.DRILLS, '{not json');
+
+    const backend = new IndexedDbBackend();
+    expect((await backend.loadGames()).map(g => g.id)).toEqual(['g1']);
+    expect(await backend.loadDrills()).toEqual([]);
+  });
+
+  it('does not import again once the database exists', async () => {
+    await new IndexedDbBackend().saveGames([game('g1')]);
+    storage.setItem(STORAGE_KEYS.RAW_GAMES, JSON.stringify([game('stale')]));
+
+    expect((await new IndexedDbBackend().loadGames()).map(g => g.id)).toEqual(['g1']);
+    expect(storage.getItem(STORAGE_KEYS.RAW_GAMES)).not.toBeNull();
+  });
+
+  it('applies overlapping saves in order', async () => {
+    const backend = new IndexedDbBackend();
+    const g1 = game('g1');
+    await backend.saveGames([g1]);
+
+    // The second save drops the game the first one adds
+    await Promise.all([backend.saveGames([g1, game('g2')]), backend.saveGames([g1])]);
+    expect((await new IndexedDbBackend().loadGames()).map(g => g.id)).toEqual(['g1']);
+  });
+
+  it('writes everything again in a save queued behind a failed one', async () => {
+    const backend = new IndexedDbBackend();
+    const games = [game('g1'), game('g2')];
+    const unclonable = { ...game('bad'), pgn: (() => '') as unknown as string };
+
+    const failed = expect(backend.saveGames([...games, unclonable])).rejects.toThrow('Could not save games');
+    await backend.saveGames(games);
+    await failed;
+    expect((await new IndexedDbBackend().loadGames()).map(g => g.id)).toEqual(['g1', 'g2']);
+  });
+
+  it('deletes records that disappeared from the collection', async () => {
+    const backend = new IndexedDbBackend();
+    await backend.saveSchedules({ d1: schedule, d2: { ...schedule, drillId: 'd2' } });
+    await backend.saveSchedules({ d2: { ...schedule, drillId: 'd2' } });
+    expect(Object.keys(await new IndexedDbBackend().loadSchedules())).toEqual(['d2']);
+  });
+});
@@ -0,0 +1,241 @@
+import { Attempt, ChessGame, Drill, DrillSchedule, IStorageBackend, TimeControl, UserProfile } from '../types';
+import { DEFAULT_TIME_CONTROLS, safeParse, STORAGE_KEYS } from './localStorageBackend';
+import { logEvent } from './logger';
+
+const DB_NAME = 'coachreps';
+
+type RecordStore = 'games' | 'drills' | 'schedules' | 'attempts';
+// The profile and preferences are single values in a key-value store
+const META_STORE = 'meta';
+const META_KEYS = { USER: 'user', PREFS_TC: 'prefs_tc' };
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: IDBDatabase, tx: IDBTransaction) => void;
+  afterCommit?: () => void; // Runs once the upgrade transaction has committed
+}
+
+// Puts that throw (e.g. a legacy record without its key) skip the record instead of aborting the upgrade
+const putEach = (tx: IDBTransaction, store: string, records: unknown[]) => {
+  const objectStore = tx.objectStore(store);
+  records.forEach(record => {
+    try {
+      objectStore.put(record);
+    } catch (e) {
+      console.warn(`[Storage] Skipped an unreadable ${store} record during migration`, e);
+    }
+  });
+};
+
+/**
+ * Forward-only schema migrations, applied in order from the stored version on open.
+ * Append new ones; never change a migration that has shipped.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create object stores and indexes',
+    migrate: db => {
+      db.createObjectStore(META_STORE);
+      const games = db.createObjectStore('games', { keyPath: 'id' });
+      games.createIndex('date', 'date');
+      games.createIndex('source', 'source');
+      const drills = db.createObjectStore('drills', { keyPath: 'id' });
+      drills.createIndex('theme', 'theme');
+      const schedules = db.createObjectStore('schedules', { keyPath: 'drillId' });
+      schedules.createIndex('nextDueAt', 'nextDueAt');
+      const attempts = db.createObjectStore('attempts', { keyPath: 'id' });
+      attempts.createIndex('drillId', 'drillId');
+      attempts.createIndex('theme', 'theme');
+      attempts.createIndex('timestamp', 'timestamp');
+    },
+  },
+  {
+    version: 2,
+    description: 'Import the coachreps_* localStorage keys',
+    migrate: (_db, tx) => {
+      const user = safeParse<UserProfile | null>(STORAGE_KEYS.USER, null);
+      if (user) tx.objectStore(META_STORE).put(user, META_KEYS.USER);
+      const timeControls = safeParse<TimeControl[] | null>(STORAGE_KEYS.PREFS_TC, null);
+      if (timeControls) tx.objectStore(META_STORE).put(timeControls, META_KEYS.PREFS_TC);
+      putEach(tx, 'games', safeParse<ChessGame[]>(STORAGE_KEYS.RAW_GAMES, []));
+      putEach(tx, 'drills', safeParse<Drill[]>(STORAGE_KEYS.DRILLS, []));
+      putEach(tx, 'schedules', Object.values(safeParse<Record<string, DrillSchedule>>(STORAGE_KEYS.SCHEDULES, {})));
+      putEach(tx, 'attempts', safeParse<Attempt[]>(STORAGE_KEYS.ATTEMPTS, []));
+    },
+    // Free the localStorage quota only once the data is safely in IndexedDB
+    afterCommit: () => {
+      Object.values(STORAGE_KEYS).forEach(key => {
+        try { localStorage.removeItem(key); } catch (e) {}
+      });
+    },
+  },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+});
+
+const describeWriteError = (what: string, e: any) =>
+  new Error(`Could not save ${what} (${e?.name === 'QuotaExceededError' ? 'storage full' : e?.message || 'unknown error'})`);
+
+/**
+ * IndexedDB storage with one record per game, drill, schedule and attempt.
+ * Saves take the full collection from app state but only write the records whose
+ * object changed since the last save, plus deletes for records that disappeared.
+ */
+export class IndexedDbBackend implements IStorageBackend {
+  readonly name = 'IndexedDB';
+  private db: Promise<IDBDatabase> | null = null;
+  // Last saved (or loaded) object per key, compared by reference to find changed records
+  private written: Record<RecordStore, Map<string, unknown>> = {
+    games: new Map(),
+    drills: new Map(),
+    schedules: new Map(),
+    attempts: new Map(),
+  };
+  // Saves to a store run one at a time, so each one diffs against what the previous one wrote
+  private saving: Record<RecordStore, Promise<void>> = {
+    games: Promise.resolve(),
+    drills: Promise.resolve(),
+    schedules: Promise.resolve(),
+    attempts: Promise.resolve(),
+  };
+
+  private open(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    this.db = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let applied: Migration[] = [];
+
+      request.onupgradeneeded = (event) => {
+        applied = MIGRATIONS.filter(m => m.version > event.oldVersion);
+        applied.forEach(m => {
+          logEvent('storage_migrated', { version: m.version, description: m.description });
+          m.migrate(request.result, request.transaction!);
+        });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab is upgrading the schema: let it
+        db.onversionchange = () => { db.close(); this.db = null; };
+        applied.forEach(m => m.afterCommit?.());
+        resolve(db);
+      };
+      request.onerror = () => reject(new Error(`Could not open the ${DB_NAME} database (${request.error?.message || 'unknown error'})`));
+      request.onblocked = () => console.warn('[Storage] Schema upgrade waiting for other tabs to close');
+    });
+    // A failed open can be retried on the next call
+    this.db.catch(() => { this.db = null; });
+    return this.db;
+  }
+
+  private async loadRecords<T>(store: RecordStore, keyOf: (record: T) => string): Promise<T[]> {
+    const db = await this.open();
+    const records = await requestResult(db.transaction(store).objectStore(store).getAll()) as T[];
+    this.written[store] = new Map(records.map(r => [keyOf(r), r]));
+    return records;
+  }
+
+  private saveRecords<T>(store: RecordStore, records: T[], keyOf: (record: T) => string): Promise<void> {
+    // The previous save has reported its own failure; this one still runs
+    const save = this.saving[store].catch(() => {}).then(() => this.writeRecords(store, records, keyOf));
+    this.saving[store] = save;
+    return save;
+  }
+
+  private async writeRecords<T>(store: RecordStore, records: T[], keyOf: (record: T) => string): Promise<void> {
+    const db = await this.open();
+    const previous = this.written[store];
+    const next = new Map(records.map(r => [keyOf(r), r]));
+    const tx = db.transaction(store, 'readwrite');
+    const done = transactionDone(tx);
+
+    // A put can throw synchronously, e.g. for a record that cannot be cloned
+    let putError: unknown = null;
+    try {
+      const objectStore = tx.objectStore(store);
+      next.forEach((record, key) => { if (previous.get(key) !== record) objectStore.put(record); });
+      previous.forEach((_, key) => { if (!next.has(key)) objectStore.delete(key); });
+    } catch (e) {
+      putError = e;
+      tx.abort();
+    }
+    this.written[store] = next;
+
+    try {
+      await done;
+    } catch (e) {
+      // What made it to disk is unknown: write everything on the next save
+      this.written[store] = new Map();
+      throw describeWriteError(store, putError || e);
+    }
+  }
+
+  private async getMeta<T>(key: string, fallback: T): Promise<T> {
+    const db = await this.open();
+    const value = await requestResult(db.transaction(META_STORE).objectStore(META_STORE).get(key));
+    return value === undefined ? fallback : value as T;
+  }
+
+  private async putMeta(key: string, value: unknown): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(META_STORE, 'readwrite');
+    const done = transactionDone(tx);
+    try {
+      tx.objectStore(META_STORE).put(value, key);
+      await done;
+    } catch (e) {
+      throw describeWriteError(key, e);
+    }
+  }
+
+  loadUser() { return this.getMeta<UserProfile | null>(META_KEYS.USER, null); }
+  saveUser(user: UserProfile) { return this.putMeta(META_KEYS.USER, user); }
+
+  loadGames() { return this.loadRecords<ChessGame>('games', g => g.id); }
+  saveGames(games: ChessGame[]) { return this.saveRecords('games', games, g => g.id); }
+
+  loadDrills() { return this.loadRecords<Drill>('drills', d => d.id); }
+  saveDrills(drills: Drill[]) { return this.saveRecords('drills', drills, d => d.id); }
+
+  async loadSchedules() {
+    const schedules = await this.loadRecords<DrillSchedule>('schedules', s => s.drillId);
+    return schedules.reduce((acc, s) => { acc[s.drillId] = s; return acc; }, {} as Record<string, DrillSchedule>);
+  }
+  saveSchedules(schedules: Record<string, DrillSchedule>) {
+    return this.saveRecords('schedules', Object.values(schedules) as DrillSchedule[], s => s.drillId);
+  }
+
+  loadAttempts() { return this.loadRecords<Attempt>('attempts', a => a.id); }
+  saveAttempts(attempts: Attempt[]) { return this.saveRecords('attempts', attempts, a => a.id); }
+
+  loadTimeControls() { return this.getMeta<TimeControl[]>(META_KEYS.PREFS_TC, DEFAULT_TIME_CONTROLS); }
+  saveTimeControls(tcs: TimeControl[]) { return this.putMeta(META_KEYS.PREFS_TC, tcs); }
+
+  async clearAll() {
+    const db = await this.db?.catch(() => null);
+    db?.close();
+    this.db = null;
+    await new Promise<void>(resolve => {
+      const request = indexedDB.deleteDatabase(DB_NAME);
+      request.onsuccess = () => resolve();
+      request.onerror = () => resolve();
+      request.onblocked = () => resolve();
+    });
+    try { localStorage.clear(); } catch (e) {}
+  }
+}
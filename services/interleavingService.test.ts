@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { SkillState, Theme } from '../types';
+import { INTERLEAVING_SETTINGS } from '../constants';
+import { createRng } from './random';
+import { computeThemeWeights, interleaveByTheme, pickThemeOrder, ThemeWeight } from './interleavingService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY_MS;
+
+const skill = (mastery: number, confidence: number, daysAgo: number): SkillState => ({
+  mastery,
+  confidence,
+  streak: 0,
+  lastPracticed: NOW - daysAgo * DAY_MS,
+});
+
+const allSkills = (overrides: Partial<Record<Theme, SkillState>>): Record<Theme, SkillState> =>
+  Object.values(Theme).reduce((acc, theme) => {
+    acc[theme] = overrides[theme] || skill(80, 0.9, 0);
+    return acc;
+  }, {} as Record<Theme, SkillState>);
+
+const weightOf = (weights: ThemeWeight[], theme: Theme) => weights.find(w => w.theme === theme)!;
+
+describe('computeThemeWeights', () => {
+  it('ranks weak, uncertain and idle themes first, with shares summing to one', () => {
+    const weights = computeThemeWeights(allSkills({
+      [Theme.ENDGAME]: skill(20, 0.9, 0),
+      [Theme.DEFENSE]: skill(80, 0.1, 0),
+    }), NOW);
+
+    expect(weights[0].theme).toBe(Theme.ENDGAME);
+    expect(weights[0].reason).toBe('mastery 20');
+    expect(weightOf(weights, Theme.DEFENSE).reason).toBe('rating still uncertain (10% confidence)');
+    expect(weights.reduce((sum, w) => sum + w.share, 0)).toBeCloseTo(1);
+  });
+
+  it('weights a theme more the longer it has been left alone, up to the horizon', () => {
+    const idle = (days: number) => weightOf(computeThemeWeights(allSkills({ [Theme.TACTICS]: skill(80, 0.9, days) }), NOW), Theme.TACTICS).weight;
+    expect(idle(3)).toBeGreaterThan(idle(0));
+    expect(idle(INTERLEAVING_SETTINGS.recencyHorizonDays)).toBeGreaterThan(idle(3));
+    expect(idle(14)).toBeGreaterThanOrEqual(idle(INTERLEAVING_SETTINGS.recencyHorizonDays));
+  });
+
+  it('keeps a minimum weight for mastered themes and flags unpractised ones', () => {
+    const weights = computeThemeWeights(allSkills({
+      [Theme.OPENING]: skill(100, 1, 0),
+      [Theme.TACTICS]: { mastery: 40, confidence: 0.2, streak: 0, lastPracticed: 0 },
+    }), NOW);
+    expect(weightOf(weights, Theme.OPENING).weight).toBe(INTERLEAVING_SETTINGS.minWeight);
+    expect(weightOf(weights, Theme.TACTICS).reason).toBe('never practised');
+  });
+});
+
+describe('pickThemeOrder', () => {
+  const weights = computeThemeWeights(allSkills({ [Theme.ENDGAME]: skill(10, 0.1, 30) }), NOW);
+
+  it('returns every theme once, and the same order for the same seed', () => {
+    const order = pickThemeOrder(weights, [], createRng(3));
+    expect([...order].sort()).toEqual([...Object.values(Theme)].sort());
+    expect(pickThemeOrder(weights, [], createRng(3))).toEqual(order);
+  });
+
+  it('picks heavier themes first more often', () => {
+    const firsts = Array.from({ length: 200 }, (_, seed) => pickThemeOrder(weights, [], createRng(seed))[0]);
+    const endgameFirst = firsts.filter(t => t === Theme.ENDGAME).length;
+    expect(endgameFirst).toBeGreaterThan(200 / Object.values(Theme).length);
+  });
+
+  it('moves a theme that just ran maxConsecutive times to the end', () => {
+    for (let seed = 0; seed < 20; seed++) {
+      const order = pickThemeOrder(weights, [Theme.ENDGAME, Theme.ENDGAME, Theme.TACTICS], createRng(seed), 2);
+      expect(order[order.length - 1]).toBe(Theme.ENDGAME);
+    }
+  });
+
+  it('does not block a theme below the run limit', () => {
+    const orders = Array.from({ length: 50 }, (_, seed) => pickThemeOrder(weights, [Theme.ENDGAME, Theme.TACTICS], createRng(seed), 2));
+    expect(orders.some(order => order[0] === Theme.ENDGAME)).toBe(true);
+  });
+});
+
+describe('interleaveByTheme', () => {
+  const longestRun = (themes: Theme[]) => themes.reduce(
+    (acc, theme, i) => {
+      const run = i > 0 && themes[i - 1] === theme ? acc.run + 1 : 1;
+      return { run, max: Math.max(acc.max, run) };
+    },
+    { run: 0, max: 0 }
+  ).max;
+
+  it('never runs a theme more than maxConsecutive times in a row while others remain', () => {
+    const queue = [Theme.TACTICS, Theme.TACTICS, Theme.TACTICS, Theme.TACTICS, Theme.ENDGAME, Theme.ENDGAME, Theme.OPENING];
+    const result = interleaveByTheme(queue, t => t, 2);
+    expect(longestRun(result)).toBe(2);
+    expect([...result].sort()).toEqual([...queue].sort());
+  });
+
+  it('keeps the original order when nothing needs breaking up', () => {
+    const queue = [Theme.TACTICS, Theme.TACTICS, Theme.ENDGAME, Theme.TACTICS, Theme.OPENING];
+    expect(interleaveByTheme(queue, t => t, 2)).toEqual(queue);
+  });
+
+  it('keeps an unbreakable run when only one theme is left', () => {
+    const queue = [Theme.TACTICS, Theme.TACTICS, Theme.TACTICS, Theme.ENDGAME, Theme.TACTICS, Theme.TACTICS];
+    expect(interleaveByTheme(queue, t => t, 2)).toEqual([Theme.TACTICS, Theme.TACTICS, Theme.ENDGAME, Theme.TACTICS, Theme.TACTICS, Theme.TACTICS]);
+  });
+
+  it('works on drills through themeOf', () => {
+    const drills = ['a', 'b', 'c', 'd'].map((id, i) => ({ id, theme: i < 3 ? Theme.DEFENSE : Theme.ADVANTAGE }));
+    expect(interleaveByTheme(drills, d => d.theme, 2).map(d => d.id)).toEqual(['a', 'b', 'd', 'c']);
+  });
+});
@@ -0,0 +1,109 @@
+import { SkillState, Theme, TrainingMode } from '../types';
+import { INTERLEAVING_SETTINGS } from '../constants';
+import { Rng } from './random';
+import { decaySkill } from './skillService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The generator that best produces drills for each theme
+export const THEME_MODES: Record<Theme, TrainingMode> = {
+  [Theme.OPENING]: TrainingMode.OPENING_REPERTOIRE,
+  [Theme.TACTICS]: TrainingMode.CRITICAL_POSITION,
+  [Theme.ENDGAME]: TrainingMode.ENDGAME_FINISH,
+  [Theme.ADVANTAGE]: TrainingMode.RANDOM_MOMENT,
+  [Theme.DEFENSE]: TrainingMode.RANDOM_MOMENT,
+};
+
+export interface ThemeWeight {
+  theme: Theme;
+  weight: number;
+  share: number; // Probability of being picked, 0-1
+  reason: string; // The factor contributing most to the weight
+}
+
+const describeReason = (skill: SkillState, factors: { mastery: number; confidence: number; recency: number }, now: number): string => {
+  if (!skill.lastPracticed) return 'never practised';
+  const top = (Object.entries(factors) as [keyof typeof factors, number][]).sort((a, b) => b[1] - a[1])[0][0];
+  if (top === 'recency') return `not practised for ${Math.floor((now - skill.lastPracticed) / DAY_MS)} days`;
+  if (top === 'confidence') return `rating still uncertain (${Math.round(skill.confidence * 100)}% confidence)`;
+  return `mastery ${Math.round(skill.mastery)}`;
+};
+
+/**
+ * Weights each theme by low mastery, low confidence and time since it was last practised.
+ * Mastery and confidence are read after decay, so idle themes count as weaker too.
+ */
+export const computeThemeWeights = (skills: Record<Theme, SkillState>, now: number): ThemeWeight[] => {
+  const { masteryWeight, confidenceWeight, recencyWeight, recencyHorizonDays, minWeight } = INTERLEAVING_SETTINGS;
+
+  const raw = Object.values(Theme).map(theme => {
+    const skill = skills[theme] && decaySkill(skills[theme], now);
+    const daysIdle = skill?.lastPracticed ? (now - skill.lastPracticed) / DAY_MS : recencyHorizonDays;
+    const factors = {
+      mastery: masteryWeight * (1 - (skill?.mastery ?? 0) / 100),
+      confidence: confidenceWeight * (1 - (skill?.confidence ?? 0)),
+      recency: recencyWeight * Math.min(1, daysIdle / recencyHorizonDays),
+    };
+    const weight = Math.max(minWeight, factors.mastery + factors.confidence + factors.recency);
+    return { theme, weight, reason: skill ? describeReason(skill, factors, now) : 'never practised' };
+  });
+
+  const total = raw.reduce((sum, t) => sum + t.weight, 0);
+  return raw
+    .map(t => ({ ...t, share: t.weight / total }))
+    .sort((a, b) => b.weight - a.weight);
+};
+
+/**
+ * True when the last `maxConsecutive` themes are all `theme`.
+ */
+const isBlocked = (theme: Theme, recentThemes: Theme[], maxConsecutive: number) =>
+  recentThemes.length >= maxConsecutive && recentThemes.slice(0, maxConsecutive).every(t => t === theme);
+
+/**
+ * Weighted sample of every theme without replacement, so callers can fall back to the next
+ * theme when a generator has nothing to offer. A theme that just ran `maxConsecutive` times
+ * goes last. `recentThemes` is most recent first.
+ */
+export const pickThemeOrder = (
+  weights: ThemeWeight[],
+  recentThemes: Theme[],
+  rng: Rng,
+  maxConsecutive: number = INTERLEAVING_SETTINGS.maxConsecutive
+): Theme[] => {
+  const pool = weights.filter(w => !isBlocked(w.theme, recentThemes, maxConsecutive));
+  const blocked = weights.filter(w => isBlocked(w.theme, recentThemes, maxConsecutive)).map(w => w.theme);
+  const order: Theme[] = [];
+
+  while (pool.length > 0) {
+    const total = pool.reduce((sum, w) => sum + w.weight, 0);
+    let r = rng() * total;
+    let index = pool.findIndex(w => (r -= w.weight) < 0);
+    if (index === -1) index = pool.length - 1;
+    order.push(pool[index].theme);
+    pool.splice(index, 1);
+  }
+  return [...order, ...blocked];
+};
+
+/**
+ * Reorders a queue so no theme runs longer than `maxConsecutive`, keeping the original
+ * order otherwise. When only one theme is left, the run cannot be broken and is kept.
+ */
+export const interleaveByTheme = <T>(
+  items: T[],
+  themeOf: (item: T) => Theme,
+  maxConsecutive: number = INTERLEAVING_SETTINGS.maxConsecutive
+): T[] => {
+  const remaining = [...items];
+  const result: T[] = [];
+
+  while (remaining.length > 0) {
+    const recent = result.slice(-maxConsecutive).map(themeOf).reverse();
+    let index = remaining.findIndex(item => !isBlocked(themeOf(item), recent, maxConsecutive));
+    if (index === -1) index = 0;
+    result.push(remaining[index]);
+    remaining.splice(index, 1);
+  }
+  return result;
+};
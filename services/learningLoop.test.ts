@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DrillOutcome } from '../types';
+import { CONTRACT_CONFIG, countRetries, effectiveContract, learningLoop } from './learningLoop';
+
+describe('countRetries', () => {
+  it('counts a hint as one retry', () => {
+    expect(countRetries(0, false)).toBe(0);
+    expect(countRetries(0, true)).toBe(1);
+  });
+
+  it('does not add the hint on top of wrong moves already made', () => {
+    expect(countRetries(1, true)).toBe(1);
+    expect(countRetries(2, true)).toBe(2);
+    expect(countRetries(2, false)).toBe(2);
+  });
+});
+
+describe('evaluateAttempt', () => {
+  const fast = CONTRACT_CONFIG.perfectTimeThresholdMs - 1;
+  const slow = CONTRACT_CONFIG.perfectTimeThresholdMs + 1;
+
+  it('grades a first-try success by speed', () => {
+    expect(learningLoop.evaluateAttempt(true, fast, 0)).toBe(DrillOutcome.PERFECT);
+    expect(learningLoop.evaluateAttempt(true, slow, 0)).toBe(DrillOutcome.SLOW_SUCCESS);
+    expect(learningLoop.evaluateAttempt(true, fast, 0, true)).toBe(DrillOutcome.ALTERNATIVE_SUCCESS);
+  });
+
+  it('grades a fast success after a hint the same as one after a wrong move', () => {
+    const afterHint = learningLoop.evaluateAttempt(true, fast, countRetries(0, true));
+    expect(afterHint).toBe(DrillOutcome.SUCCESS_WITH_HINT);
+    expect(learningLoop.evaluateAttempt(true, fast, countRetries(1, false))).toBe(afterHint);
+  });
+
+  it('fails an error once the retry allowance is spent', () => {
+    expect(learningLoop.evaluateAttempt(false, fast, 0)).toBe(DrillOutcome.SUCCESS_WITH_HINT);
+    expect(learningLoop.evaluateAttempt(false, fast, CONTRACT_CONFIG.maxRetriesAllowed)).toBe(DrillOutcome.FAILURE);
+  });
+});
+
+describe('effectiveContract', () => {
+  it('gives longer solutions and harder drills more time', () => {
+    const base = effectiveContract(CONTRACT_CONFIG, { solutionSan: ['Qh5'], difficulty: 1 });
+    expect(base.perfectTimeThresholdMs).toBe(CONTRACT_CONFIG.perfectTimeThresholdMs);
+
+    const longer = effectiveContract(CONTRACT_CONFIG, { solutionSan: ['Qh5', 'Nf6', 'Qxf7#'], difficulty: 1 });
+    expect(longer.perfectTimeThresholdMs).toBe(CONTRACT_CONFIG.perfectTimeThresholdMs + CONTRACT_CONFIG.timePerExtraMoveMs);
+
+    const harder = effectiveContract(CONTRACT_CONFIG, { solutionSan: ['Qh5'], difficulty: 5 });
+    expect(harder.perfectTimeThresholdMs).toBeGreaterThan(base.perfectTimeThresholdMs);
+  });
+});
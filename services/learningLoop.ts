@@ -1,4 +1,4 @@
-import { DrillOutcome, LearningContractConfig, Theme } from '../types';
+import { ContractPreset, Drill, DrillOutcome, LearningContractConfig, Theme, UserProfile } from '../types';
 
 /**
  * THE LEARNING LOOP CONTRACT
@@ -10,24 +10,73 @@ import { DrillOutcome, LearningContractConfig, Theme } from '../types';
  */
 export const CONTRACT_CONFIG: LearningContractConfig = {
   perfectTimeThresholdMs: 15000, // < 15s implies Pattern Recognition
+  timePerExtraMoveMs: 8000, // Each further move to find buys 8s
+  difficultyTimeFactor: 0.25, // A difficulty-5 drill gets twice the time of a difficulty-1 one
   maxRetriesAllowed: 1, // Allow 1 retry (Hint state), 2nd error is absolute failure
   masteryThreshold: 80,
   tiltFailureLimit: 3 // 3 Consecutive failures lock the theme
 };
 
+export const CONTRACT_PRESETS: Record<ContractPreset, { label: string; description: string; config: LearningContractConfig }> = {
+  blitz: {
+    label: 'Blitz player',
+    description: 'Fast recognition. Tight time limits, no second chances.',
+    config: { ...CONTRACT_CONFIG, perfectTimeThresholdMs: 8000, timePerExtraMoveMs: 4000, difficultyTimeFactor: 0.15, maxRetriesAllowed: 0 },
+  },
+  balanced: {
+    label: 'Balanced',
+    description: 'The default contract.',
+    config: CONTRACT_CONFIG,
+  },
+  classical: {
+    label: 'Classical calculation',
+    description: 'Time to calculate deep lines, and room for one more retry.',
+    config: { ...CONTRACT_CONFIG, perfectTimeThresholdMs: 30000, timePerExtraMoveMs: 20000, difficultyTimeFactor: 0.4, maxRetriesAllowed: 2, tiltFailureLimit: 4 },
+  },
+};
+
+/**
+ * The user's contract: their preset with any individual overrides on top.
+ */
+export const resolveContract = (user: UserProfile | null): LearningContractConfig => ({
+  ...CONTRACT_PRESETS[user?.contractPreset || 'balanced'].config,
+  ...user?.contractOverrides,
+});
+
+/**
+ * The contract applied to one drill: the perfect-time threshold scales with the number of
+ * moves the solver has to find and with the drill's difficulty.
+ */
+export const effectiveContract = (config: LearningContractConfig, drill: Pick<Drill, 'solutionSan' | 'difficulty'>): LearningContractConfig => {
+  const solverMoves = Math.max(1, Math.ceil(drill.solutionSan.length / 2));
+  const baseMs = config.perfectTimeThresholdMs + (solverMoves - 1) * config.timePerExtraMoveMs;
+  const difficultyScale = 1 + config.difficultyTimeFactor * (Math.max(1, drill.difficulty) - 1);
+  return { ...config, perfectTimeThresholdMs: Math.round(baseMs * difficultyScale) };
+};
+
+/**
+ * Retries an attempt is graded with: a hint spends one retry, so a success after a
+ * hint grades the same as a success after one wrong move.
+ */
+export const countRetries = (retryCount: number, hintUsed: boolean): number =>
+  hintUsed ? Math.max(1, retryCount) : retryCount;
+
 class LearningLoopService {
   
   /**
    * Evaluates a drill attempt against the strict contract.
+   * `config` should be the effective contract for the drill (see `effectiveContract`).
    */
   public evaluateAttempt(
     isCorrect: boolean,
     durationMs: number,
-    retryCount: number
+    retryCount: number,
+    usedAlternative: boolean = false,
+    config: LearningContractConfig = CONTRACT_CONFIG
   ): DrillOutcome {
     // 1. Correctness Check
     if (!isCorrect) {
-      if (retryCount >= CONTRACT_CONFIG.maxRetriesAllowed) {
+      if (retryCount >= config.maxRetriesAllowed) {
         return DrillOutcome.FAILURE;
       }
       return DrillOutcome.SUCCESS_WITH_HINT; // Provisional status until they solve it
@@ -40,8 +89,13 @@ class LearningLoopService {
       return DrillOutcome.SUCCESS_WITH_HINT;
     }
 
+    // A sound alternative is credited, but it is not the pattern the drill trains
+    if (usedAlternative) {
+      return DrillOutcome.ALTERNATIVE_SUCCESS;
+    }
+
     // 3. Time Check (Speed = Mastery)
-    if (durationMs <= CONTRACT_CONFIG.perfectTimeThresholdMs) {
+    if (durationMs <= config.perfectTimeThresholdMs) {
       return DrillOutcome.PERFECT;
     }
 
@@ -52,13 +106,13 @@ class LearningLoopService {
    * Check for Stop Condition (Tilt / Knowledge Gap).
    * Returns true if the theme should be locked.
    */
-  public checkStopCondition(theme: Theme, recentOutcomes: DrillOutcome[]): boolean {
-    if (recentOutcomes.length < CONTRACT_CONFIG.tiltFailureLimit) return false;
+  public checkStopCondition(theme: Theme, recentOutcomes: DrillOutcome[], config: LearningContractConfig = CONTRACT_CONFIG): boolean {
+    if (recentOutcomes.length < config.tiltFailureLimit) return false;
 
     // Get the last N outcomes
-    const lastN = recentOutcomes.slice(-CONTRACT_CONFIG.tiltFailureLimit);
+    const lastN = recentOutcomes.slice(-config.tiltFailureLimit);
     
-    // Strict Stop: If ANY 3 in a row are failures
+    // Strict Stop: If the last N in a row are failures
     const consecutiveFailures = lastN.every(o => o === DrillOutcome.FAILURE);
     
     return consecutiveFailures;
@@ -73,6 +127,8 @@ class LearningLoopService {
         return "⚡ PERFECT! Pattern recognized immediately.";
       case DrillOutcome.SLOW_SUCCESS:
         return "✅ GOOD. Calculation correct, but try to recognize this faster.";
+      case DrillOutcome.ALTERNATIVE_SUCCESS:
+        return "👍 SOUND. Your move works too, but look at the main line.";
       case DrillOutcome.SUCCESS_WITH_HINT:
         return "⚠️ RECOVERED. You found it eventually. Review this pattern.";
       case DrillOutcome.FAILURE:
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { DrillOutcome, DrillSchedule, IScheduler, ScheduleState } from '../types';
+import { LEECH_SETTINGS } from '../constants';
+import { Sm2Scheduler } from './scheduler';
+import { FsrsScheduler } from './fsrsScheduler';
+import { detectLeech, isLeechLapseCount, unsuspendSchedule } from './leechService';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Reviews a drill with the given outcomes and reports after which reviews a leech was
+ * detected. Each review happens when the drill comes due, or with `daily` on the next
+ * day: learning steps come due again within minutes, so only `daily` spans sessions.
+ */
+const review = (
+  scheduler: IScheduler,
+  outcomes: DrillOutcome[],
+  { daily = false, start = scheduler.createInitialSchedule('d1', DAY_MS) }: { daily?: boolean; start?: DrillSchedule } = {}
+) => {
+  let schedule = start;
+  const leechAt: number[] = [];
+  outcomes.forEach((outcome, i) => {
+    const last = schedule.lastReviewedAt || 0;
+    const at = daily ? Math.max(schedule.nextDueAt, last + DAY_MS) : Math.max(schedule.nextDueAt, last + MINUTE_MS);
+    const next = scheduler.calculateNext(schedule, outcome, at);
+    if (detectLeech(schedule, next)) leechAt.push(i + 1);
+    schedule = next;
+  });
+  return { schedule, leechAt };
+};
+
+describe('isLeechLapseCount', () => {
+  it('fires at the threshold and every repeatEvery lapses after it', () => {
+    const { lapseThreshold, repeatEvery } = LEECH_SETTINGS;
+    expect(isLeechLapseCount(lapseThreshold - 1)).toBe(false);
+    expect(isLeechLapseCount(lapseThreshold)).toBe(true);
+    expect(isLeechLapseCount(lapseThreshold + 1)).toBe(repeatEvery === 1);
+    expect(isLeechLapseCount(lapseThreshold + repeatEvery)).toBe(true);
+  });
+});
+
+describe.each([
+  ['SM-2', new Sm2Scheduler()],
+  ['FSRS', new FsrsScheduler()],
+] as [string, IScheduler][])('leech detection with %s', (_, scheduler) => {
+  const { lapseThreshold } = LEECH_SETTINGS;
+
+  it('catches a new drill that fails every day and never graduates', () => {
+    const { schedule, leechAt } = review(scheduler, Array(lapseThreshold).fill(DrillOutcome.FAILURE), { daily: true });
+    expect(schedule.state).toBe(ScheduleState.LEARNING);
+    expect(schedule.lapses).toBe(lapseThreshold);
+    expect(leechAt).toEqual([lapseThreshold]);
+  });
+
+  it('counts a new drill failed repeatedly within one session as a single lapse', () => {
+    const { schedule, leechAt } = review(scheduler, Array(lapseThreshold + 2).fill(DrillOutcome.FAILURE));
+    expect(schedule.lapses).toBe(1);
+    expect(leechAt).toEqual([]);
+
+    // A bad first session plus one miss the next day is not a leech
+    const nextDay = review(scheduler, [DrillOutcome.FAILURE], { daily: true, start: schedule });
+    expect(nextDay.schedule.lapses).toBe(2);
+    expect(nextDay.leechAt).toEqual([]);
+  });
+
+  it('counts failures across learning, review and relearning on different days', () => {
+    const outcomes = [
+      DrillOutcome.FAILURE, // learning
+      DrillOutcome.PERFECT, // graduates
+      DrillOutcome.FAILURE, // lapse from review
+      DrillOutcome.ABANDONED, // relearning
+      DrillOutcome.FAILURE,
+    ];
+    expect(review(scheduler, outcomes, { daily: true }).schedule.lapses).toBe(4);
+  });
+
+  it('does not count passes', () => {
+    const { schedule, leechAt } = review(scheduler, Array(6).fill(DrillOutcome.SUCCESS_WITH_HINT), { daily: true });
+    expect(schedule.lapses || 0).toBe(0);
+    expect(leechAt).toEqual([]);
+  });
+
+  it('fires again after repeatEvery more failures once unsuspended', () => {
+    const first = review(scheduler, Array(lapseThreshold).fill(DrillOutcome.FAILURE), { daily: true });
+    const restored = unsuspendSchedule({ ...first.schedule, suspended: true }, first.schedule.nextDueAt + DAY_MS);
+    const { leechAt } = review(scheduler, Array(LEECH_SETTINGS.repeatEvery).fill(DrillOutcome.FAILURE), { daily: true, start: restored });
+    expect(leechAt).toEqual([LEECH_SETTINGS.repeatEvery]);
+  });
+});
@@ -0,0 +1,79 @@
+import { Chess } from 'chess.js';
+import { Drill, DrillSchedule, ScheduleState } from '../types';
+import { LEECH_SETTINGS } from '../constants';
+import { estimateDifficulty } from './difficultyService';
+
+export const LEECH_TAG = 'leech';
+
+const PIECE_NAMES: Record<string, string> = { p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king' };
+
+/**
+ * A drill becomes a leech at the lapse threshold, and again every `repeatEvery` lapses after it.
+ */
+export const isLeechLapseCount = (lapses: number): boolean => {
+  const { lapseThreshold, repeatEvery } = LEECH_SETTINGS;
+  return lapses >= lapseThreshold && (lapses - lapseThreshold) % repeatEvery === 0;
+};
+
+/**
+ * True when the review that produced `next` was a lapse that crossed a leech threshold.
+ */
+export const detectLeech = (previous: DrillSchedule | undefined, next: DrillSchedule): boolean => {
+  const lapses = next.lapses || 0;
+  return lapses > (previous?.lapses || 0) && isLeechLapseCount(lapses);
+};
+
+export const suspendSchedule = (schedule: DrillSchedule, now: number): DrillSchedule => ({
+  ...schedule,
+  suspended: true,
+  suspendedAt: now,
+});
+
+/**
+ * Brings a suspended drill back as a relearning drill due immediately.
+ */
+export const unsuspendSchedule = (schedule: DrillSchedule, now: number): DrillSchedule => ({
+  ...schedule,
+  suspended: false,
+  suspendedAt: undefined,
+  state: ScheduleState.RELEARNING,
+  step: 0,
+  nextDueAt: now,
+});
+
+export const tagLeech = (drill: Drill): Drill =>
+  drill.tags?.includes(LEECH_TAG) ? drill : { ...drill, tags: [...(drill.tags || []), LEECH_TAG] };
+
+export const untagLeech = (drill: Drill): Drill => ({ ...drill, tags: drill.tags?.filter(t => t !== LEECH_TAG) });
+
+/**
+ * A simpler drill on the same position: only the key move, with the piece to move named.
+ */
+export const createPrerequisiteDrill = (drill: Drill): Drill => {
+  const keySan = drill.solutionSan[0];
+  let pieceName = 'pieces';
+  try {
+    pieceName = PIECE_NAMES[new Chess(drill.fen).move(keySan).piece];
+  } catch (e) {
+    console.warn(`[Leech] Could not replay key move ${keySan} of ${drill.id}`);
+  }
+
+  const solutionSan = [keySan];
+  const keyAlternatives = drill.alternatives?.[0]?.map(alt => ({ san: alt.san }));
+  return {
+    id: `${drill.id}-prereq`,
+    sourceGameId: drill.sourceGameId,
+    sourcePly: drill.sourcePly,
+    fen: drill.fen,
+    theme: drill.theme,
+    motifs: drill.motifs,
+    endgameType: drill.endgameType,
+    goal: `Find the key ${pieceName} move`,
+    solutionSan,
+    alternatives: keyAlternatives?.length ? [keyAlternatives] : undefined,
+    playedMoveSan: drill.playedMoveSan,
+    difficulty: parseFloat(Math.max(1, estimateDifficulty(drill.fen, solutionSan) - 0.5).toFixed(1)),
+    explanation: `Step one of a drill you keep missing. ${drill.explanation}`,
+    prerequisiteOf: drill.id,
+  };
+};
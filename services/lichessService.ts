@@ -1,4 +1,7 @@
 import { ChessGame, TimeControl } from '../types';
+import { resolveUserPerspective } from './playerIdentity';
+import { parsePgn } from './pgnParser';
+import { extractClockData } from './clockService';
 
 const LICHESS_API_BASE = 'https://lichess.org/api';
 
@@ -16,14 +19,18 @@ const mapSpeedToTimeControl = (speed: string): TimeControl => {
   }
 };
 
-export const fetchRecentGames = async (usernameInput: string, count: number = 100): Promise<ChessGame[]> => {
+export const fetchRecentGames = async (
+  usernameInput: string,
+  count: number = 100,
+  linkedUsernames: string[] = []
+): Promise<ChessGame[]> => {
   // Normalize input (handle full URL)
   const username = usernameInput.includes('lichess.org') 
     ? usernameInput.split('/').pop()?.trim() || usernameInput 
     : usernameInput.trim();
 
   // Fetch up to 'count' games (default 100)
-  const url = `${LICHESS_API_BASE}/games/user/${username}?max=${count}&pgnInJson=true&clocks=false&opening=true`;
+  const url = `${LICHESS_API_BASE}/games/user/${username}?max=${count}&pgnInJson=true&clocks=true&evals=true&opening=true`;
   console.log(`[Lichess Import] Requesting: ${url}`);
 
   try {
@@ -50,12 +57,16 @@ export const fetchRecentGames = async (usernameInput: string, count: number = 10
         const data = JSON.parse(line);
         const mappedTC = mapSpeedToTimeControl(data.speed);
 
+        // Aborted games have no moves; nothing to train on
+        const tree = parsePgn(data.pgn);
+        if (tree.mainline.length === 0) return null;
+
         // Debug logging for first few items
         if (idx < 2) {
             console.log(`[Lichess Import] Sample Game ${idx}:`, { id: data.id, speed: data.speed, mappedTC });
         }
 
-        return {
+        const game: ChessGame = {
           id: data.id,
           white: data.players.white.user?.name || 'Anonymous',
           black: data.players.black.user?.name || 'Anonymous',
@@ -64,8 +75,15 @@ export const fetchRecentGames = async (usernameInput: string, count: number = 10
           result: data.winner ? (data.winner === 'white' ? '1-0' : '0-1') : '1/2-1/2',
           source: 'lichess',
           timeControl: mappedTC,
-          rated: data.rated || false
-        } as ChessGame;
+          rated: data.rated || false,
+          whiteRating: data.players.white.rating,
+          blackRating: data.players.black.rating,
+          opening: data.opening
+            ? { eco: data.opening.eco, name: data.opening.name }
+            : { eco: tree.headers.ECO, name: tree.headers.Opening },
+          ...extractClockData(tree)
+        };
+        return resolveUserPerspective(game, [username, ...linkedUsernames]);
       } catch (e) {
         console.warn("Skipping malformed game line", e);
         return null;
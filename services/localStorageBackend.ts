@@ -0,0 +1,64 @@
+import { UserProfile, ChessGame, Drill, DrillSchedule, TimeControl, Attempt, IStorageBackend } from '../types';
+
+// Keys of the original localStorage layout; the IndexedDB backend migrates from these
+export const STORAGE_KEYS = {
+  USER: 'coachreps_user',
+  RAW_GAMES: 'coachreps_raw_games',
+  DRILLS: 'coachreps_drills',
+  SCHEDULES: 'coachreps_schedules',
+  ATTEMPTS: 'coachreps_attempts',
+  PREFS_TC: 'coachreps_prefs_tc'
+};
+
+export const DEFAULT_TIME_CONTROLS: TimeControl[] = ['rapid', 'blitz', 'classical'];
+
+export const safeParse = <T>(key: string, fallback: T): T => {
+  try {
+    const item = localStorage.getItem(key);
+    return item ? JSON.parse(item) : fallback;
+  } catch (e) {
+    console.warn(`[Persistence] Failed to parse ${key}`, e);
+    // If corrupt, clear it to prevent persistent crashes
+    try { localStorage.removeItem(key); } catch (err) {}
+    return fallback;
+  }
+};
+
+/**
+ * Whole-array writes into localStorage. Only used where IndexedDB is unavailable;
+ * the 5 MB quota fills up after a few hundred games.
+ */
+export class LocalStorageBackend implements IStorageBackend {
+  readonly name = 'localStorage';
+
+  private write(key: string, value: unknown): Promise<void> {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+      return Promise.resolve();
+    } catch (e: any) {
+      return Promise.reject(new Error(`Could not save ${key} (${e?.name === 'QuotaExceededError' ? 'storage full' : e?.message || 'unknown error'})`));
+    }
+  }
+
+  async loadUser() { return safeParse<UserProfile | null>(STORAGE_KEYS.USER, null); }
+  saveUser(user: UserProfile) { return this.write(STORAGE_KEYS.USER, user); }
+
+  async loadGames() { return safeParse<ChessGame[]>(STORAGE_KEYS.RAW_GAMES, []); }
+  saveGames(games: ChessGame[]) { return this.write(STORAGE_KEYS.RAW_GAMES, games); }
+
+  async loadDrills() { return safeParse<Drill[]>(STORAGE_KEYS.DRILLS, []); }
+  saveDrills(drills: Drill[]) { return this.write(STORAGE_KEYS.DRILLS, drills); }
+
+  async loadSchedules() { return safeParse<Record<string, DrillSchedule>>(STORAGE_KEYS.SCHEDULES, {}); }
+  saveSchedules(schedules: Record<string, DrillSchedule>) { return this.write(STORAGE_KEYS.SCHEDULES, schedules); }
+
+  async loadAttempts() { return safeParse<Attempt[]>(STORAGE_KEYS.ATTEMPTS, []); }
+  saveAttempts(attempts: Attempt[]) { return this.write(STORAGE_KEYS.ATTEMPTS, attempts); }
+
+  async loadTimeControls() { return safeParse<TimeControl[]>(STORAGE_KEYS.PREFS_TC, DEFAULT_TIME_CONTROLS); }
+  saveTimeControls(tcs: TimeControl[]) { return this.write(STORAGE_KEYS.PREFS_TC, tcs); }
+
+  async clearAll() {
+    try { localStorage.clear(); } catch (e) {}
+  }
+}
@@ -0,0 +1,213 @@
+import { Chess, Color, Move, PieceSymbol, Square } from 'chess.js';
+import { TacticalMotif } from '../types';
+
+export interface MotifClassification {
+  motifs: TacticalMotif[];
+  mateIn?: number; // Solver moves to mate, when the line ends in mate
+}
+
+const PIECE_VALUES: Record<PieceSymbol, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 100 };
+
+const ROOK_RAYS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const BISHOP_RAYS = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+const FILES = 'abcdefgh';
+
+const toCoords = (sq: Square): [number, number] => [FILES.indexOf(sq[0]), parseInt(sq[1], 10) - 1];
+
+const toSquare = (file: number, rank: number): Square | null => {
+  if (file < 0 || file > 7 || rank < 0 || rank > 7) return null;
+  return `${FILES[file]}${rank + 1}` as Square;
+};
+
+const opposite = (color: Color): Color => (color === 'w' ? 'b' : 'w');
+
+const raysFor = (type: PieceSymbol): number[][] => {
+  if (type === 'r') return ROOK_RAYS;
+  if (type === 'b') return BISHOP_RAYS;
+  if (type === 'q') return [...ROOK_RAYS, ...BISHOP_RAYS];
+  return [];
+};
+
+const piecesOf = (board: Chess, color: Color): { square: Square; type: PieceSymbol }[] => {
+  const out: { square: Square; type: PieceSymbol }[] = [];
+  for (const row of board.board()) {
+    for (const cell of row) {
+      if (cell && cell.color === color) out.push({ square: cell.square, type: cell.type });
+    }
+  }
+  return out;
+};
+
+const isDefended = (board: Chess, square: Square, color: Color) => board.attackers(square, color).length > 0;
+
+/**
+ * A target is worth attacking if it is the king, worth more than the attacker, or undefended.
+ */
+const isWorthAttacking = (board: Chess, target: { square: Square; type: PieceSymbol }, attackerType: PieceSymbol, targetColor: Color) => {
+  if (target.type === 'k') return true;
+  if (PIECE_VALUES[target.type] > PIECE_VALUES[attackerType]) return true;
+  return !isDefended(board, target.square, targetColor);
+};
+
+// --- Individual detectors. Each looks at the key move (the first solution move). ---
+
+const detectFork = (after: Chess, move: Move): boolean => {
+  const victim = opposite(move.color);
+  const targets = piecesOf(after, victim).filter(p =>
+    after.attackers(p.square, move.color).includes(move.to) &&
+    isWorthAttacking(after, p, move.piece, victim)
+  );
+  return targets.length >= 2;
+};
+
+/**
+ * Walks the lines of a slider that just moved and returns what sits behind the first enemy piece.
+ */
+const detectLineTactics = (after: Chess, move: Move): { pin: boolean; skewer: boolean } => {
+  const result = { pin: false, skewer: false };
+  const [file, rank] = toCoords(move.to);
+  const piece = move.promotion ?? move.piece;
+
+  for (const [df, dr] of raysFor(piece)) {
+    const hits: { color: Color; type: PieceSymbol }[] = [];
+    let f = file + df;
+    let r = rank + dr;
+    let sq = toSquare(f, r);
+    while (sq && hits.length < 2) {
+      const occupant = after.get(sq);
+      if (occupant) hits.push({ color: occupant.color, type: occupant.type });
+      f += df; r += dr;
+      sq = toSquare(f, r);
+    }
+    if (hits.length < 2 || hits.some(h => h.color === move.color)) continue;
+
+    const [front, back] = hits;
+    // Pawns pinned in front of heavier pieces are too common to be a meaningful pattern
+    if (front.type !== 'k' && front.type !== 'p' && PIECE_VALUES[back.type] > PIECE_VALUES[front.type]) result.pin = true;
+    if (front.type === 'k' || PIECE_VALUES[front.type] > PIECE_VALUES[back.type]) {
+      if (back.type !== 'p') result.skewer = true;
+    }
+  }
+  return result;
+};
+
+const detectDiscoveredAttack = (before: Chess, after: Chess, move: Move): boolean => {
+  const victim = opposite(move.color);
+  return piecesOf(after, victim).some(target => {
+    if (target.type === 'p') return false;
+    const prior = new Set(before.attackers(target.square, move.color));
+    return after.attackers(target.square, move.color).some(sq => {
+      if (sq === move.to || prior.has(sq)) return false;
+      const slider = after.get(sq);
+      if (!slider || raysFor(slider.type).length === 0) return false;
+      return isWorthAttacking(after, target, slider.type, victim);
+    });
+  });
+};
+
+const detectHangingPiece = (before: Chess, move: Move): boolean => {
+  if (!move.captured || move.captured === 'p') return false;
+  // A capture of an undefended piece; en passant never qualifies since the victim is a pawn
+  return !isDefended(before, move.to, opposite(move.color));
+};
+
+/**
+ * Deflection: the opponent's forced reply drags a defender away from a square
+ * the solver then uses for a capture, check or mate.
+ */
+const detectDeflection = (line: Move[], boards: Chess[]): boolean => {
+  if (line.length < 3) return false;
+  const [key, reply, follow] = line;
+  if (!key.captured && !key.san.includes('+')) return false;
+  if (!follow.captured && !/[+#]/.test(follow.san)) return false;
+
+  const beforeReply = boards[1];
+  const defenderSquares = beforeReply.attackers(follow.to, reply.color);
+  return defenderSquares.includes(reply.from) && !boards[2].attackers(follow.to, reply.color).includes(reply.to);
+};
+
+const detectBackRankMate = (finalBoard: Chess, lastMove: Move): boolean => {
+  if (!finalBoard.isCheckmate()) return false;
+  const victim = opposite(lastMove.color);
+  const [kingSquare] = finalBoard.findPiece({ type: 'k', color: victim });
+  if (!kingSquare) return false;
+
+  const backRank = victim === 'w' ? '1' : '8';
+  if (kingSquare[1] !== backRank) return false;
+
+  const checkers = finalBoard.attackers(kingSquare, lastMove.color)
+    .map(sq => ({ sq, piece: finalBoard.get(sq) }))
+    .filter(c => c.piece && (c.piece.type === 'r' || c.piece.type === 'q'));
+  return checkers.some(c => c.sq[1] === backRank);
+};
+
+/**
+ * Inspects the board before and after each move of the solution line and
+ * tags the concrete tactical patterns it contains.
+ */
+export const classifyMotifs = (fen: string, solutionSan: string[]): MotifClassification => {
+  const motifs = new Set<TacticalMotif>();
+  const board = new Chess(fen);
+  const boards: Chess[] = [new Chess(fen)];
+  const line: Move[] = [];
+
+  for (const san of solutionSan) {
+    try {
+      line.push(board.move(san));
+    } catch (e) {
+      break;
+    }
+    boards.push(new Chess(board.fen()));
+  }
+  if (line.length === 0) return { motifs: [] };
+
+  const key = line[0];
+  const before = boards[0];
+  const after = boards[1];
+
+  if (detectFork(after, key)) motifs.add(TacticalMotif.FORK);
+  const { pin, skewer } = detectLineTactics(after, key);
+  if (pin) motifs.add(TacticalMotif.PIN);
+  if (skewer) motifs.add(TacticalMotif.SKEWER);
+  if (detectDiscoveredAttack(before, after, key)) motifs.add(TacticalMotif.DISCOVERED_ATTACK);
+  if (detectHangingPiece(before, key)) motifs.add(TacticalMotif.HANGING_PIECE);
+  if (detectDeflection(line, boards)) motifs.add(TacticalMotif.DEFLECTION);
+  // Any solver move promoting to less than a queen; the board cannot tell us why, the choice is the lesson
+  if (line.some((m, i) => i % 2 === 0 && m.promotion && m.promotion !== 'q')) motifs.add(TacticalMotif.UNDERPROMOTION);
+
+  let mateIn: number | undefined;
+  const last = line[line.length - 1];
+  const finalBoard = boards[line.length];
+  // Only count mates delivered by the solver (even plies from the start)
+  if (finalBoard.isCheckmate() && (line.length - 1) % 2 === 0) {
+    mateIn = Math.floor(line.length / 2) + 1;
+    motifs.add(TacticalMotif.MATE_IN_N);
+    if (detectBackRankMate(finalBoard, last)) motifs.add(TacticalMotif.BACK_RANK_MATE);
+  }
+
+  return { motifs: [...motifs], mateIn };
+};
+
+const MOTIF_GOALS: Record<TacticalMotif, string> = {
+  [TacticalMotif.FORK]: 'Find the fork',
+  [TacticalMotif.PIN]: 'Exploit the pin',
+  [TacticalMotif.SKEWER]: 'Find the skewer',
+  [TacticalMotif.DISCOVERED_ATTACK]: 'Unleash the discovered attack',
+  [TacticalMotif.BACK_RANK_MATE]: 'Exploit the weak back rank',
+  [TacticalMotif.DEFLECTION]: 'Deflect the defender',
+  [TacticalMotif.HANGING_PIECE]: 'Win the loose piece',
+  [TacticalMotif.MATE_IN_N]: 'Find the mate',
+  [TacticalMotif.UNDERPROMOTION]: 'Choose the right promotion',
+};
+
+/**
+ * Goal text for a classified drill, most specific motif first.
+ */
+export const describeMotifGoal = (classification: MotifClassification): string | null => {
+  // The promotion choice is what makes these drills hard, so it beats even a mate
+  if (classification.motifs.includes(TacticalMotif.UNDERPROMOTION)) return MOTIF_GOALS[TacticalMotif.UNDERPROMOTION];
+  if (classification.mateIn) return `Find mate in ${classification.mateIn}`;
+  const [primary] = classification.motifs;
+  return primary ? MOTIF_GOALS[primary] : null;
+};
@@ -1,62 +1,62 @@
-import { UserProfile, ChessGame, Drill, DrillSchedule, TimeControl } from '../types';
-
-const STORAGE_KEYS = {
-  USER: 'coachreps_user',
-  RAW_GAMES: 'coachreps_raw_games',
-  DRILLS: 'coachreps_drills',
-  SCHEDULES: 'coachreps_schedules',
-  PREFS_TC: 'coachreps_prefs_tc'
-};
+import { UserProfile, ChessGame, Drill, DrillSchedule, TimeControl, Attempt, IStorageBackend } from '../types';
+import { IndexedDbBackend, isIndexedDbAvailable } from './indexedDbStorage';
+import { LocalStorageBackend } from './localStorageBackend';
+import { logEvent } from './logger';
+
+type ErrorListener = (error: Error) => void;
+
+let backend: IStorageBackend = isIndexedDbAvailable() ? new IndexedDbBackend() : new LocalStorageBackend();
+const errorListeners = new Set<ErrorListener>();
 
-const safeParse = <T>(key: string, fallback: T): T => {
-  try {
-    const item = localStorage.getItem(key);
-    return item ? JSON.parse(item) : fallback;
-  } catch (e) {
-    console.warn(`[Persistence] Failed to parse ${key}`, e);
-    // If corrupt, clear it to prevent persistent crashes
-    try { localStorage.removeItem(key); } catch (err) {}
-    return fallback;
-  }
+// Failed writes are logged and handed to the listeners instead of being dropped
+const reportFailure = (error: any) => {
+  const err = error instanceof Error ? error : new Error(String(error));
+  console.error(`[Persistence] ${backend.name} write failed`, err);
+  errorListeners.forEach(listener => listener(err));
 };
 
+const guarded = <A extends unknown[]>(write: (...args: A) => Promise<void>) =>
+  (...args: A): Promise<void> => write(...args).catch(reportFailure);
+
 export const persistence = {
-  saveUser: (user: UserProfile) => {
-    try { localStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(user)); } catch (e) {}
-  },
-  loadUser: (): UserProfile | null => {
-    return safeParse<UserProfile | null>(STORAGE_KEYS.USER, null);
-  },
+  get backendName() { return backend.name; },
 
-  saveGames: (games: ChessGame[]) => {
-    try { localStorage.setItem(STORAGE_KEYS.RAW_GAMES, JSON.stringify(games)); } catch (e) {}
-  },
-  loadGames: (): ChessGame[] => {
-    return safeParse<ChessGame[]>(STORAGE_KEYS.RAW_GAMES, []);
+  /**
+   * Moves to localStorage after IndexedDB failed to open or load, so the session can
+   * still save. Returns false when already on localStorage, with nothing left to try.
+   */
+  fallBackToLocalStorage: (reason: Error) => {
+    if (backend instanceof LocalStorageBackend) return false;
+    logEvent('storage_fallback', { from: backend.name, reason: reason.message }, undefined, 'warn');
+    backend = new LocalStorageBackend();
+    return true;
   },
 
-  saveDrills: (drills: Drill[]) => {
-    try { localStorage.setItem(STORAGE_KEYS.DRILLS, JSON.stringify(drills)); } catch (e) {}
-  },
-  loadDrills: (): Drill[] => {
-    return safeParse<Drill[]>(STORAGE_KEYS.DRILLS, []);
+  /**
+   * Subscribes to write failures; returns the unsubscribe function.
+   */
+  onWriteError: (listener: ErrorListener) => {
+    errorListeners.add(listener);
+    return () => { errorListeners.delete(listener); };
   },
 
-  saveSchedules: (schedules: Record<string, DrillSchedule>) => {
-    try { localStorage.setItem(STORAGE_KEYS.SCHEDULES, JSON.stringify(schedules)); } catch (e) {}
-  },
-  loadSchedules: (): Record<string, DrillSchedule> => {
-    return safeParse<Record<string, DrillSchedule>>(STORAGE_KEYS.SCHEDULES, {});
-  },
+  saveUser: guarded((user: UserProfile) => backend.saveUser(user)),
+  loadUser: () => backend.loadUser(),
 
-  saveTimeControls: (tcs: TimeControl[]) => {
-    try { localStorage.setItem(STORAGE_KEYS.PREFS_TC, JSON.stringify(tcs)); } catch (e) {}
-  },
-  loadTimeControls: (): TimeControl[] => {
-    return safeParse<TimeControl[]>(STORAGE_KEYS.PREFS_TC, ['rapid', 'blitz', 'classical']);
-  },
+  saveGames: guarded((games: ChessGame[]) => backend.saveGames(games)),
+  loadGames: () => backend.loadGames(),
+
+  saveDrills: guarded((drills: Drill[]) => backend.saveDrills(drills)),
+  loadDrills: () => backend.loadDrills(),
 
-  clearAll: () => {
-    try { localStorage.clear(); } catch(e) {}
-  }
-};
\ No newline at end of file
+  saveSchedules: guarded((schedules: Record<string, DrillSchedule>) => backend.saveSchedules(schedules)),
+  loadSchedules: () => backend.loadSchedules(),
+
+  saveAttempts: guarded((attempts: Attempt[]) => backend.saveAttempts(attempts)),
+  loadAttempts: () => backend.loadAttempts(),
+
+  saveTimeControls: guarded((tcs: TimeControl[]) => backend.saveTimeControls(tcs)),
+  loadTimeControls: () => backend.loadTimeControls(),
+
+  clearAll: () => backend.clearAll()
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { getMainlineSan, loadGame, parsePgn } from './pgnParser';
+
+describe('parsePgn', () => {
+  it('reads headers and the result', () => {
+    const game = parsePgn('[Event "Casual"]\n[White "A \\"B\\" C"]\n[Result "1-0"]\n\n1. e4 e5 2. Qh5 Nc6 3. Bc4 Nf6 4. Qxf7# 1-0');
+    expect(game.headers.Event).toBe('Casual');
+    expect(game.headers.White).toBe('A "B" C');
+    expect(game.result).toBe('1-0');
+    expect(getMainlineSan(game)).toEqual(['e4', 'e5', 'Qh5', 'Nc6', 'Bc4', 'Nf6', 'Qxf7#']);
+  });
+
+  it('keeps nested variations out of the mainline', () => {
+    const game = parsePgn('1. e4 e5 (1... c5 2. Nf3 (2. c3 d5) 2... d6) (1... e6) 2. Nf3 Nc6 *');
+    expect(getMainlineSan(game)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+
+    const [sicilian, french] = game.mainline[1].variations;
+    expect(sicilian.map(n => n.san)).toEqual(['c5', 'Nf3', 'd6']);
+    expect(french.map(n => n.san)).toEqual(['e6']);
+    expect(sicilian[1].variations).toHaveLength(1);
+    expect(sicilian[1].variations[0].map(n => n.san)).toEqual(['c3', 'd5']);
+  });
+
+  it('attaches comments inside variations to the variation moves', () => {
+    const game = parsePgn('1. e4 e5 (1... c5 {the Sicilian} 2. Nf3 {main (and best) move}) 2. Nf3 {develops} *');
+    const variation = game.mainline[1].variations[0];
+    expect(variation[0].comments).toEqual(['the Sicilian']);
+    expect(variation[1].comments).toEqual(['main (and best) move']);
+    expect(game.mainline[2].comments).toEqual(['develops']);
+  });
+
+  it('keeps a comment that opens a variation as commentsBefore', () => {
+    const game = parsePgn('1. e4 e5 ({Instead} 1... c5) *');
+    expect(game.mainline[1].variations[0][0].commentsBefore).toEqual(['Instead']);
+  });
+
+  it('extracts %clk and %eval commands and strips them from the comment text', () => {
+    const game = parsePgn('1. e4 { [%eval 0.35] [%clk 0:03:00.5] } 1... e5 { [%clk 1:02:03] } 2. Qh5 { [%eval #-3] Risky } *');
+    const [e4, e5, qh5] = game.mainline;
+    expect(e4.evalCp).toBe(35);
+    expect(e4.clockSeconds).toBe(180.5);
+    expect(e4.comments).toEqual([]);
+    expect(e5.clockSeconds).toBe(3723);
+    expect(e5.evalCp).toBeUndefined();
+    expect(qh5.evalMate).toBe(-3);
+    expect(qh5.comments).toEqual(['Risky']);
+  });
+
+  it('reads NAGs and suffix annotations, including !? and ?!', () => {
+    const game = parsePgn('1. e4! e5?? 2. Nf3!? Nc6?! 3. Bb5 $14 a6 $2 $32 *');
+    expect(getMainlineSan(game)).toEqual(['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6']);
+    expect(game.mainline.map(n => n.nags)).toEqual([[1], [4], [5], [6], [14], [2, 32]]);
+  });
+
+  it('collects comments before the first move', () => {
+    const game = parsePgn('{Annotated by A} ; rest of line\n1. d4 *');
+    expect(game.comments).toEqual(['Annotated by A', 'rest of line']);
+  });
+
+  it('stops at the second game of a multi-game file', () => {
+    const game = parsePgn('[Event "One"]\n\n1. e4 e5 1-0\n\n[Event "Two"]\n\n1. d4 d5 0-1');
+    expect(game.headers.Event).toBe('One');
+    expect(getMainlineSan(game)).toEqual(['e4', 'e5']);
+    expect(game.result).toBe('1-0');
+  });
+
+  it('rejects unbalanced variations', () => {
+    expect(() => parsePgn('1. e4 (1. d4 e5')).toThrow('Unterminated variation');
+    expect(() => parsePgn('1. e4 e5) 2. Nf3')).toThrow('Unbalanced');
+  });
+});
+
+describe('loadGame', () => {
+  // The old regex cleaner removed "(...)" up to the first ")", so the tail of the outer
+  // variation ("2... Nc6)") leaked into the mainline and the replay failed.
+  it('replays a game whose variations nest, where the regex cleaner broke', () => {
+    const pgn = '[Event "Nested"]\n\n1. e4 c5 (1... e5 2. Nf3 (2. f4 exf4) 2... Nc6) 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 a6 *';
+    const { chess, tree } = loadGame(pgn);
+    expect(chess.history()).toEqual(['e4', 'c5', 'Nf3', 'd6', 'd4', 'cxd4', 'Nxd4', 'Nf6', 'Nc3', 'a6']);
+    expect(tree.mainline[1].variations[0].map(n => n.san)).toEqual(['e5', 'Nf3', 'Nc6']);
+  });
+
+  it('starts from the FEN header of a SetUp game', () => {
+    const { chess } = loadGame('[SetUp "1"]\n[FEN "4k3/8/8/8/8/8/4P3/4K3 w - - 0 1"]\n\n1. e4 Kd7 *');
+    expect(chess.fen()).toBe('8/3k4/8/8/4P3/8/8/4K3 w - - 1 2');
+  });
+
+  it('throws on illegal moves', () => {
+    expect(() => loadGame('1. e4 e5 2. Ke3 *')).toThrow();
+  });
+});
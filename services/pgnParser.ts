@@ -0,0 +1,218 @@
+/**
+ * Lossless PGN parser.
+ *
+ * Produces a game tree (headers, mainline, nested variations) and keeps the
+ * annotations the old regex cleaner threw away: comments, NAGs and the
+ * embedded %clk / %eval commands Lichess and Chess.com write into comments.
+ */
+import { Chess } from 'chess.js';
+
+export interface PgnMoveNode {
+  san: string;
+  nags: number[];
+  comments: string[]; // Comment text after the move, with [%...] commands removed
+  commentsBefore?: string[]; // Comments preceding the first move of a line
+  clockSeconds?: number; // [%clk h:mm:ss(.f)] - time left after the move
+  evalCp?: number; // [%eval 0.35] in centipawns, White's point of view
+  evalMate?: number; // [%eval #-3], White's point of view
+  variations: PgnMoveNode[][]; // Alternatives to this move
+}
+
+export interface PgnGame {
+  headers: Record<string, string>;
+  comments: string[]; // Comments before the first move
+  mainline: PgnMoveNode[];
+  result: string;
+}
+
+type Token =
+  | { type: 'header'; key: string; value: string }
+  | { type: 'comment'; text: string }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'nag'; value: number }
+  | { type: 'result'; value: string }
+  | { type: 'san'; value: string };
+
+const RESULT_TOKENS = new Set(['1-0', '0-1', '1/2-1/2', '*']);
+
+// Traditional suffix annotations and their NAG equivalents
+const SUFFIX_NAGS: Record<string, number> = { '!': 1, '?': 2, '!!': 3, '??': 4, '!?': 5, '?!': 6 };
+
+const tokenize = (pgn: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  const n = pgn.length;
+
+  while (i < n) {
+    const ch = pgn[i];
+
+    if (/\s/.test(ch)) { i++; continue; }
+
+    // "%" escape: the whole line is ignored (only valid at line start)
+    if (ch === '%' && (i === 0 || pgn[i - 1] === '\n')) {
+      while (i < n && pgn[i] !== '\n') i++;
+      continue;
+    }
+
+    if (ch === '[') {
+      const end = pgn.indexOf(']', i);
+      if (end === -1) throw new Error(`Unterminated header at offset ${i}`);
+      const match = pgn.slice(i + 1, end).match(/^\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*$/);
+      if (match) tokens.push({ type: 'header', key: match[1], value: match[2].replace(/\\(.)/g, '$1') });
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === '{') {
+      const end = pgn.indexOf('}', i);
+      if (end === -1) throw new Error(`Unterminated comment at offset ${i}`);
+      tokens.push({ type: 'comment', text: pgn.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === ';') {
+      let end = pgn.indexOf('\n', i);
+      if (end === -1) end = n;
+      tokens.push({ type: 'comment', text: pgn.slice(i + 1, end) });
+      i = end;
+      continue;
+    }
+
+    if (ch === '(') { tokens.push({ type: 'open' }); i++; continue; }
+    if (ch === ')') { tokens.push({ type: 'close' }); i++; continue; }
+
+    if (ch === '$') {
+      const match = pgn.slice(i).match(/^\$(\d+)/);
+      if (match) {
+        tokens.push({ type: 'nag', value: parseInt(match[1], 10) });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    // Symbol: runs until whitespace or a structural character
+    let end = i;
+    while (end < n && !/[\s{}()\[\];$]/.test(pgn[end])) end++;
+    if (end === i) { i++; continue; }
+    const word = pgn.slice(i, end);
+    i = end;
+
+    if (RESULT_TOKENS.has(word)) { tokens.push({ type: 'result', value: word }); continue; }
+
+    // Strip move numbers ("12." / "12..." / "12...Nf3")
+    const move = word.replace(/^\d+\.+/, '');
+    if (!move || /^\d+$/.test(move)) continue;
+
+    const suffix = move.match(/[!?]+$/);
+    const san = suffix ? move.slice(0, -suffix[0].length) : move;
+    if (san) tokens.push({ type: 'san', value: san });
+    if (suffix && SUFFIX_NAGS[suffix[0]]) tokens.push({ type: 'nag', value: SUFFIX_NAGS[suffix[0]] });
+  }
+
+  return tokens;
+};
+
+/**
+ * Splits a raw comment into human text and the embedded clock/eval commands.
+ */
+const parseCommentBody = (raw: string) => {
+  const result: { text: string; clockSeconds?: number; evalCp?: number; evalMate?: number } = { text: '' };
+
+  const clk = raw.match(/\[%clk\s+(\d+):(\d+):(\d+(?:\.\d+)?)\]/);
+  if (clk) result.clockSeconds = parseInt(clk[1], 10) * 3600 + parseInt(clk[2], 10) * 60 + parseFloat(clk[3]);
+
+  const evalMatch = raw.match(/\[%eval\s+(#?)(-?\d+(?:\.\d+)?)(?:,\d+)?\]/);
+  if (evalMatch) {
+    if (evalMatch[1] === '#') result.evalMate = parseInt(evalMatch[2], 10);
+    else result.evalCp = Math.round(parseFloat(evalMatch[2]) * 100);
+  }
+
+  result.text = raw.replace(/\[%[^\]]*\]/g, ' ').replace(/\s+/g, ' ').trim();
+  return result;
+};
+
+export const parsePgn = (pgn: string): PgnGame => {
+  const tokens = tokenize(pgn);
+  const game: PgnGame = { headers: {}, comments: [], mainline: [], result: '*' };
+
+  let pos = 0;
+  while (pos < tokens.length && tokens[pos].type === 'header') {
+    const t = tokens[pos] as { key: string; value: string };
+    game.headers[t.key] = t.value;
+    pos++;
+  }
+
+  // Recursive descent over one line of moves; returns at ")" or end of input.
+  const parseLine = (depth: number, leadingComments: string[]): PgnMoveNode[] => {
+    const line: PgnMoveNode[] = [];
+    let pendingComments: string[] = [];
+
+    while (pos < tokens.length) {
+      const token = tokens[pos++];
+      const last = line[line.length - 1];
+
+      switch (token.type) {
+        case 'san':
+          line.push({ san: token.value, nags: [], comments: [], variations: [] });
+          if (pendingComments.length) {
+            line[line.length - 1].commentsBefore = pendingComments;
+            pendingComments = [];
+          }
+          break;
+        case 'comment': {
+          const body = parseCommentBody(token.text);
+          if (last) {
+            if (body.text) last.comments.push(body.text);
+            if (body.clockSeconds !== undefined) last.clockSeconds = body.clockSeconds;
+            if (body.evalCp !== undefined) last.evalCp = body.evalCp;
+            if (body.evalMate !== undefined) last.evalMate = body.evalMate;
+          } else if (body.text) {
+            (depth === 0 ? leadingComments : pendingComments).push(body.text);
+          }
+          break;
+        }
+        case 'nag':
+          if (last) last.nags.push(token.value);
+          break;
+        case 'open':
+          if (!last) throw new Error('Variation opened before any move');
+          last.variations.push(parseLine(depth + 1, []));
+          break;
+        case 'close':
+          if (depth === 0) throw new Error('Unbalanced ")" in movetext');
+          return line;
+        case 'result':
+          if (depth === 0) game.result = token.value;
+          break;
+        case 'header':
+          // A second game's headers: stop at the first game
+          if (depth === 0) { pos = tokens.length; return line; }
+          break;
+      }
+    }
+
+    if (depth > 0) throw new Error('Unterminated variation');
+    return line;
+  };
+
+  game.mainline = parseLine(0, game.comments);
+  if (game.result === '*' && game.headers.Result) game.result = game.headers.Result;
+  return game;
+};
+
+export const getMainlineSan = (game: PgnGame): string[] => game.mainline.map(node => node.san);
+
+/**
+ * Parses a PGN and replays its mainline. The board is left at the final position,
+ * so chess.history() covers the whole game; the tree keeps clocks, evals and comments.
+ */
+export const loadGame = (pgn: string): { chess: Chess; tree: PgnGame } => {
+  const tree = parsePgn(pgn);
+  const chess = tree.headers.SetUp === '1' && tree.headers.FEN ? new Chess(tree.headers.FEN) : new Chess();
+  for (const node of tree.mainline) {
+    chess.move(node.san); // Throws on illegal SAN
+  }
+  return { chess, tree };
+};
@@ -0,0 +1,39 @@
+import { ChessGame } from '../types';
+
+/**
+ * Works out which side (if any) the linked user played and fills in the
+ * user-relative fields. Username matching is case-insensitive because the
+ * providers return canonical casing while users type whatever they like.
+ */
+export const resolveUserPerspective = (game: ChessGame, usernames: string[]): ChessGame => {
+  const names = new Set(usernames.map(u => u.trim().toLowerCase()));
+
+  let userColor: 'w' | 'b' | undefined;
+  if (names.has(game.white.toLowerCase())) userColor = 'w';
+  else if (names.has(game.black.toLowerCase())) userColor = 'b';
+
+  if (!userColor) {
+    const { userColor: _c, userRating: _u, opponentRating: _o, ...rest } = game;
+    return rest;
+  }
+
+  return {
+    ...game,
+    userColor,
+    userRating: userColor === 'w' ? game.whiteRating : game.blackRating,
+    opponentRating: userColor === 'w' ? game.blackRating : game.whiteRating,
+  };
+};
+
+/**
+ * Returns the provider's canonical spelling of a username as it appears in the games,
+ * falling back to the input if the user did not play in any of them.
+ */
+export const findCanonicalUsername = (games: ChessGame[], username: string): string => {
+  const needle = username.trim().toLowerCase();
+  for (const g of games) {
+    if (g.white.toLowerCase() === needle) return g.white;
+    if (g.black.toLowerCase() === needle) return g.black;
+  }
+  return username.trim();
+};
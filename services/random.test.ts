@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createRng, pickOne, randomInt } from './random';
+
+const take = (seed: number, count: number) => {
+  const rng = createRng(seed);
+  return Array.from({ length: count }, () => rng());
+};
+
+describe('createRng', () => {
+  it('repeats its sequence for the same seed', () => {
+    expect(take(42, 10)).toEqual(take(42, 10));
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(take(42, 10)).not.toEqual(take(43, 10));
+  });
+
+  it('stays in [0, 1)', () => {
+    take(7, 1000).forEach(x => {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThan(1);
+    });
+  });
+});
+
+describe('randomInt and pickOne', () => {
+  it('stay within their bounds', () => {
+    const rng = createRng(5);
+    for (let i = 0; i < 200; i++) {
+      const n = randomInt(rng, 3, 6);
+      expect(n).toBeGreaterThanOrEqual(3);
+      expect(n).toBeLessThanOrEqual(6);
+      expect(['a', 'b', 'c']).toContain(pickOne(rng, ['a', 'b', 'c']));
+    }
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Seeded randomness for drill generation and session building.
+ * Every random choice goes through an Rng so a drill can be regenerated from its seed.
+ */
+
+export type Rng = () => number; // Uniform in [0, 1)
+
+/**
+ * Mulberry32: tiny, fast, and good enough for picking positions.
+ */
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fresh seed for a new generation; everything downstream of it is deterministic.
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+export const randomInt = (rng: Rng, min: number, max: number): number => Math.floor(rng() * (max - min + 1)) + min;
+
+export const pickOne = <T>(rng: Rng, items: T[]): T => items[Math.floor(rng() * items.length)];
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { ChessGame, DrillOutcome, RatingEstimate } from '../types';
+import { RATING_SETTINGS } from '../constants';
+import {
+  aggregateRating, decayEstimate, drillRating, estimateGameRatings, normaliseRating, RatingTable, seedRatings, updateTrainingRating,
+} from './ratingService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 2, 10).getTime();
+
+const ratedGame = (id: string, userRating: number, date: string, overrides: Partial<ChessGame> = {}): ChessGame => ({
+  id,
+  white: 'me',
+  black: 'them',
+  pgn: '',
+  date,
+  result: '1-0',
+  source: 'lichess',
+  timeControl: 'blitz',
+  rated: true,
+  userColor: 'w',
+  userRating,
+  ...overrides,
+});
+
+const estimate = (rating: number, deviation: number, updatedAt = NOW): RatingEstimate => ({ rating, deviation, samples: 10, updatedAt });
+
+describe('normaliseRating', () => {
+  it('leaves Lichess ratings alone and maps Chess.com ratings per time control', () => {
+    expect(normaliseRating(1500, 'lichess', 'blitz')).toBe(1500);
+    const { scale, offset } = RATING_SETTINGS.chesscomToLichess.blitz;
+    expect(normaliseRating(1200, 'chesscom', 'blitz')).toBe(Math.round(1200 * scale + offset));
+  });
+});
+
+describe('drillRating', () => {
+  it('spans the drill rating range and clamps difficulty to 1-5', () => {
+    const [low, high] = RATING_SETTINGS.drillRatingRange;
+    expect(drillRating(1)).toBe(low);
+    expect(drillRating(5)).toBe(high);
+    expect(drillRating(0)).toBe(low);
+    expect(drillRating(9)).toBe(high);
+  });
+});
+
+describe('estimateGameRatings', () => {
+  it('averages the latest rated games per time control and ignores unrated ones', () => {
+    const estimates = estimateGameRatings([
+      ratedGame('a', 1500, '2026-03-01'),
+      ratedGame('b', 1520, '2026-03-02'),
+      ratedGame('c', 1480, '2026-03-03'),
+      ratedGame('casual', 900, '2026-03-04', { rated: false }),
+      ratedGame('rapid', 1700, '2026-03-04', { timeControl: 'rapid' }),
+    ], NOW);
+
+    expect(estimates.blitz).toMatchObject({ rating: 1500, samples: 3, updatedAt: NOW });
+    expect(estimates.rapid).toMatchObject({ rating: 1700, samples: 1, deviation: RATING_SETTINGS.initialDeviation });
+  });
+
+  it('is less certain about a rating that swings between games', () => {
+    const steady = estimateGameRatings(Array.from({ length: 10 }, (_, i) => ratedGame(`s${i}`, 1500, '2026-03-01')), NOW);
+    const swinging = estimateGameRatings(Array.from({ length: 10 }, (_, i) => ratedGame(`w${i}`, i % 2 ? 1200 : 1800, '2026-03-01')), NOW);
+
+    expect(steady.blitz!.deviation).toBeLessThan(swinging.blitz!.deviation);
+    expect(swinging.blitz!.rating).toBe(1500);
+  });
+});
+
+describe('decayEstimate', () => {
+  it('widens the deviation with idle time, up to that of an unrated player', () => {
+    const fresh = estimate(1500, RATING_SETTINGS.minDeviation);
+    expect(decayEstimate(fresh, NOW)).toEqual(fresh);
+
+    const month = decayEstimate(fresh, NOW + 30 * DAY_MS);
+    expect(month.deviation).toBeGreaterThan(fresh.deviation);
+    expect(month.rating).toBe(1500);
+
+    expect(decayEstimate(fresh, NOW + 5 * 365 * DAY_MS).deviation).toBe(RATING_SETTINGS.initialDeviation);
+  });
+});
+
+describe('aggregateRating', () => {
+  it('weights time controls by certainty and prefers game ratings over training ones', () => {
+    const ratings: RatingTable = {
+      blitz: { game: estimate(1600, 50), training: estimate(1000, 50) },
+      rapid: { training: estimate(1200, 350) },
+    };
+    const aggregate = aggregateRating(ratings);
+    expect(aggregate).toBeGreaterThan(1550);
+    expect(aggregate).toBeLessThan(1600);
+  });
+
+  it('falls back to the default rating', () => {
+    expect(aggregateRating(undefined)).toBe(RATING_SETTINGS.defaultRating);
+  });
+});
+
+describe('seedRatings', () => {
+  const games = [ratedGame('a', 1500, '2026-03-01'), ratedGame('b', 1500, '2026-03-02')];
+
+  it('starts training at the game rating with at least the seed deviation', () => {
+    const { blitz } = seedRatings(games, undefined, NOW);
+    expect(blitz!.training).toMatchObject({ rating: 1500, samples: 0 });
+    expect(blitz!.training.deviation).toBeGreaterThanOrEqual(RATING_SETTINGS.trainingSeedDeviation);
+  });
+
+  it('keeps a training rating already refined by drills', () => {
+    const trained = estimate(1650, 80, NOW - DAY_MS);
+    const { blitz } = seedRatings(games, { blitz: { training: trained } }, NOW);
+    expect(blitz!.training).toEqual(trained);
+    expect(blitz!.game!.rating).toBe(1500);
+  });
+});
+
+describe('updateTrainingRating', () => {
+  const ratings: RatingTable = { blitz: { training: estimate(1600, 200) } };
+
+  it('moves the rating towards the outcome and narrows the deviation', () => {
+    const win = updateTrainingRating(ratings, 'blitz', 3, DrillOutcome.PERFECT, NOW).blitz!.training;
+    const loss = updateTrainingRating(ratings, 'blitz', 3, DrillOutcome.FAILURE, NOW).blitz!.training;
+
+    expect(win.rating).toBeGreaterThan(1600);
+    expect(loss.rating).toBeLessThan(1600);
+    expect(win.deviation).toBeLessThan(200);
+    expect(win.samples).toBe(11);
+  });
+
+  it('rewards solving a hard drill more than an easy one', () => {
+    const easy = updateTrainingRating(ratings, 'blitz', 1, DrillOutcome.PERFECT, NOW).blitz!.training.rating;
+    const hard = updateTrainingRating(ratings, 'blitz', 5, DrillOutcome.PERFECT, NOW).blitz!.training.rating;
+    expect(hard).toBeGreaterThan(easy);
+  });
+
+  it('moves a rating further after a long break, since its deviation has grown', () => {
+    const stale: RatingTable = { blitz: { training: estimate(1600, RATING_SETTINGS.minDeviation, NOW - 200 * DAY_MS) } };
+    const current: RatingTable = { blitz: { training: estimate(1600, RATING_SETTINGS.minDeviation) } };
+    const after = (table: RatingTable) => updateTrainingRating(table, 'blitz', 3, DrillOutcome.FAILURE, NOW).blitz!.training.rating;
+    expect(1600 - after(stale)).toBeGreaterThan(1600 - after(current));
+  });
+
+  it('starts a new time control from the aggregate rating and keeps its game rating', () => {
+    const table: RatingTable = { rapid: { game: estimate(1400, 60), training: estimate(1400, 60) } };
+    const { bullet, rapid } = updateTrainingRating(table, 'bullet', 3, DrillOutcome.SUCCESS_WITH_HINT, NOW);
+    expect(bullet!.training.samples).toBe(1);
+    expect(Math.abs(bullet!.training.rating - 1400)).toBeLessThan(200);
+    expect(rapid).toEqual(table.rapid);
+  });
+});
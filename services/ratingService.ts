@@ -0,0 +1,139 @@
+import { AccountProvider, ChessGame, DrillOutcome, RatingEstimate, TimeControl, TimeControlRating } from '../types';
+import { RATING_SETTINGS } from '../constants';
+import { getPerformanceScore } from './skillService';
+
+export type RatingTable = Partial<Record<TimeControl, TimeControlRating>>;
+
+// Glicko-1 scale constant
+const Q = Math.LN10 / 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const g = (deviation: number) => 1 / Math.sqrt(1 + (3 * Q * Q * deviation * deviation) / (Math.PI * Math.PI));
+
+/**
+ * Puts a provider rating on the Lichess scale, so games from both sites can be averaged.
+ */
+export const normaliseRating = (rating: number, source: AccountProvider, timeControl: TimeControl): number => {
+  if (source === 'lichess') return rating;
+  const { scale, offset } = RATING_SETTINGS.chesscomToLichess[timeControl] || RATING_SETTINGS.chesscomToLichess.unknown;
+  return Math.round(rating * scale + offset);
+};
+
+export const drillRating = (difficulty: number): number => {
+  const [low, high] = RATING_SETTINGS.drillRatingRange;
+  const t = (Math.max(1, Math.min(5, difficulty)) - 1) / 4;
+  return low + t * (high - low);
+};
+
+/**
+ * Estimate per time control from the user's latest rated games. The deviation
+ * reflects both how many games there are and how much the rating moved across them.
+ */
+export const estimateGameRatings = (games: ChessGame[], now: number): Partial<Record<TimeControl, RatingEstimate>> => {
+  const { recentGames, initialDeviation, minDeviation } = RATING_SETTINGS;
+  const byTimeControl: Partial<Record<TimeControl, ChessGame[]>> = {};
+  games.forEach(game => {
+    if (!game.rated || !game.userColor || !game.userRating) return;
+    byTimeControl[game.timeControl] = [...(byTimeControl[game.timeControl] || []), game];
+  });
+
+  const estimates: Partial<Record<TimeControl, RatingEstimate>> = {};
+  (Object.entries(byTimeControl) as [TimeControl, ChessGame[]][]).forEach(([timeControl, list]) => {
+    const recent = list
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+      .slice(0, recentGames)
+      .map(game => normaliseRating(game.userRating!, game.source, timeControl));
+    const mean = recent.reduce((sum, r) => sum + r, 0) / recent.length;
+    const spread = Math.sqrt(recent.reduce((sum, r) => sum + (r - mean) ** 2, 0) / recent.length);
+    estimates[timeControl] = {
+      rating: Math.round(mean),
+      deviation: Math.round(Math.max(minDeviation, spread, initialDeviation / Math.sqrt(recent.length))),
+      samples: recent.length,
+      updatedAt: now,
+    };
+  });
+  return estimates;
+};
+
+/**
+ * Widens the deviation for the time since the estimate was last updated (Glicko's idle
+ * uncertainty growth), capped at the deviation of an unrated player.
+ */
+export const decayEstimate = (estimate: RatingEstimate, now: number): RatingEstimate => {
+  const { deviationGrowthPerDay, initialDeviation } = RATING_SETTINGS;
+  const idleDays = Math.max(0, (now - estimate.updatedAt) / DAY_MS);
+  const deviation = Math.min(initialDeviation, Math.sqrt(estimate.deviation ** 2 + deviationGrowthPerDay ** 2 * idleDays));
+  return { ...estimate, deviation: Math.round(deviation) };
+};
+
+export const decayRatings = (ratings: RatingTable | undefined, now: number): RatingTable =>
+  (Object.entries(ratings || {}) as [TimeControl, TimeControlRating][]).reduce((acc, [timeControl, r]) => {
+    acc[timeControl] = { game: r.game && decayEstimate(r.game, now), training: decayEstimate(r.training, now) };
+    return acc;
+  }, {} as RatingTable);
+
+/**
+ * Inverse-variance weighted mean across time controls, preferring game ratings.
+ */
+export const aggregateRating = (ratings: RatingTable | undefined): number => {
+  const estimates = (Object.values(ratings || {}) as TimeControlRating[]).map(r => r.game || r.training);
+  if (estimates.length === 0) return RATING_SETTINGS.defaultRating;
+  let weighted = 0;
+  let totalWeight = 0;
+  estimates.forEach(e => {
+    const weight = 1 / (e.deviation * e.deviation);
+    weighted += e.rating * weight;
+    totalWeight += weight;
+  });
+  return Math.round(weighted / totalWeight);
+};
+
+/**
+ * Re-derives game ratings from the imported games. Training ratings already refined by
+ * drills are kept; new time controls start their training rating at the game rating.
+ */
+export const seedRatings = (games: ChessGame[], existing: RatingTable | undefined, now: number): RatingTable => {
+  const gameRatings = estimateGameRatings(games, now);
+  const table: RatingTable = { ...existing };
+  (Object.entries(gameRatings) as [TimeControl, RatingEstimate][]).forEach(([timeControl, game]) => {
+    table[timeControl] = {
+      game,
+      training: existing?.[timeControl]?.training || {
+        rating: game.rating,
+        deviation: Math.max(game.deviation, RATING_SETTINGS.trainingSeedDeviation),
+        samples: 0,
+        updatedAt: now,
+      },
+    };
+  });
+  return table;
+};
+
+/**
+ * One Glicko-1 update of the training rating for a time control, treating the drill
+ * as an opponent rated by its difficulty.
+ */
+export const updateTrainingRating = (ratings: RatingTable | undefined, timeControl: TimeControl, difficulty: number, outcome: DrillOutcome, now: number): RatingTable => {
+  const { initialDeviation, minDeviation, drillDeviation } = RATING_SETTINGS;
+  const stored = ratings?.[timeControl]?.training;
+  const current = stored ? decayEstimate(stored, now) : {
+    rating: aggregateRating(ratings),
+    deviation: initialDeviation,
+    samples: 0,
+    updatedAt: now,
+  };
+
+  const opponent = drillRating(difficulty);
+  const gOpponent = g(drillDeviation);
+  const expected = 1 / (1 + Math.pow(10, (-gOpponent * (current.rating - opponent)) / 400));
+  const dSquared = 1 / (Q * Q * gOpponent * gOpponent * expected * (1 - expected));
+  const precision = 1 / (current.deviation * current.deviation) + 1 / dSquared;
+
+  const training: RatingEstimate = {
+    rating: Math.round(current.rating + (Q / precision) * gOpponent * (getPerformanceScore(outcome) - expected)),
+    deviation: Math.round(Math.max(minDeviation, Math.sqrt(1 / precision))),
+    samples: current.samples + 1,
+    updatedAt: now,
+  };
+  return { ...ratings, [timeControl]: { ...ratings?.[timeControl], training } };
+};
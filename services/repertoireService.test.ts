@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { ChessGame, Theme } from '../types';
+import { branchPointToDrill, buildRepertoire, findBranchPoints, generateRepertoireDrills } from './repertoireService';
+
+let nextId = 0;
+const game = (pgn: string, userColor: 'w' | 'b', result: string): ChessGame => ({
+  id: `g${nextId++}`,
+  white: 'white',
+  black: 'black',
+  pgn: `${pgn} ${result}`,
+  date: '2026-01-01',
+  result,
+  source: 'lichess',
+  timeControl: 'blitz',
+  rated: true,
+  userColor,
+  opening: { eco: 'C20', name: "King's Pawn" },
+});
+
+const repeat = (count: number, make: () => ChessGame) => Array.from({ length: count }, make);
+
+describe('buildRepertoire', () => {
+  it('counts games and points per move from the user\'s side', () => {
+    const games = [
+      game('1. e4 e5 2. Nf3', 'w', '1-0'),
+      game('1. e4 c5', 'w', '1/2-1/2'),
+      game('1. d4 d5', 'w', '0-1'),
+      game('1. e4 e5', 'b', '1-0'),
+    ];
+    const root = buildRepertoire(games, 'w');
+    expect(root.games).toBe(3);
+    expect(root.children.e4).toMatchObject({ games: 2, points: 1.5 });
+    expect(root.children.d4).toMatchObject({ games: 1, points: 0 });
+    expect(root.children.e4.children.e5.children.Nf3.gameIds).toEqual([games[0].id]);
+  });
+});
+
+describe('findBranchPoints', () => {
+  it('asks for the best-scoring repeated move where the user varies', () => {
+    const games = [
+      ...repeat(3, () => game('1. e4 e5 2. Nf3', 'w', '1-0')),
+      ...repeat(2, () => game('1. e4 e5 2. Bc4', 'w', '0-1')),
+    ];
+    const [point] = findBranchPoints(buildRepertoire(games, 'w'), 'w', games);
+    expect(point.path).toEqual(['e4', 'e5']);
+    expect(point.intendedSan).toBe('Nf3');
+    expect(point.deviations).toBe(2);
+    expect(point.scoreRate).toBeCloseTo(0.6);
+  });
+
+  it('skips a move the user always plays, even when it scores badly', () => {
+    const games = repeat(5, () => game('1. e4 e5 2. Qh5', 'w', '0-1'));
+    expect(findBranchPoints(buildRepertoire(games, 'w'), 'w', games)).toEqual([]);
+  });
+
+  it('ignores positions reached in fewer than three games', () => {
+    const games = [game('1. e4 e5 2. Nf3', 'w', '1-0'), game('1. e4 e5 2. Bc4', 'w', '1-0')];
+    expect(findBranchPoints(buildRepertoire(games, 'w'), 'w', games)).toEqual([]);
+  });
+
+  it('puts frequent deviations and poor results first', () => {
+    const games = [
+      // Move 1: 1. e4 in eight of nine games, mostly won
+      ...repeat(5, () => game('1. e4 e5 2. Nf3 Nc6 3. Bb5', 'w', '1-0')),
+      game('1. d4', 'w', '1-0'),
+      // Move 3: 3. Bb5 in five of eight games; the three deviations all lost
+      game('1. e4 e5 2. Nf3 Nc6 3. Bc4', 'w', '0-1'),
+      game('1. e4 e5 2. Nf3 Nc6 3. d4', 'w', '0-1'),
+      game('1. e4 e5 2. Nf3 Nc6 3. d4', 'w', '0-1'),
+    ];
+    const points = findBranchPoints(buildRepertoire(games, 'w'), 'w', games);
+    expect(points.map(p => p.path.length)).toEqual([4, 0]);
+    expect(points[0]).toMatchObject({ intendedSan: 'Bb5', deviations: 3 });
+    expect(points[0].priority).toBeGreaterThan(points[1].priority);
+  });
+
+  it('only considers positions with the user to move', () => {
+    // White varies at move 2; Black always answers the same way
+    const games = [
+      ...repeat(3, () => game('1. e4 e5 2. Nf3 Nc6', 'b', '0-1')),
+      ...repeat(3, () => game('1. e4 e5 2. Bc4 Nf6', 'b', '0-1')),
+    ];
+    expect(findBranchPoints(buildRepertoire(games, 'b'), 'b', games)).toEqual([]);
+  });
+});
+
+describe('generateRepertoireDrills', () => {
+  it('turns branch points into opening drills', () => {
+    const games = [
+      ...repeat(3, () => game('1. e4 e5 2. Nf3', 'w', '1-0')),
+      game('1. e4 e5 2. Bc4', 'w', '0-1'),
+    ];
+    const [drill] = generateRepertoireDrills(games);
+    expect(drill).toMatchObject({
+      id: 'drill-opening-w-e4_e5',
+      theme: Theme.OPENING,
+      solutionSan: ['Nf3'],
+      sourcePly: 2,
+    });
+    expect(drill.explanation).toBe("In King's Pawn (C20) you reached this position 4 times and left your best line 1 time (score 75%).");
+  });
+
+  it('names the start position in the drill id', () => {
+    const drill = branchPointToDrill({
+      color: 'w', path: [], fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+      intendedSan: 'e4', games: 4, deviations: 1, scoreRate: 0.5, priority: 2, sampleGameId: 'g',
+    });
+    expect(drill.id).toBe('drill-opening-w-start');
+    expect(drill.explanation).toContain('your opening');
+  });
+});
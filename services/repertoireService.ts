@@ -0,0 +1,162 @@
+import { Chess } from 'chess.js';
+import { ChessGame, Drill, Theme } from '../types';
+import { parsePgn } from './pgnParser';
+import { estimateDifficulty } from './difficultyService';
+
+// Opening trees stop here; later deviations are middlegame decisions, not repertoire.
+const REPERTOIRE_MAX_PLIES = 20;
+// A branch point needs at least this many games through it to be worth quizzing.
+const MIN_BRANCH_GAMES = 3;
+
+export interface RepertoireNode {
+  san: string; // Move leading to this node ('' for the root)
+  games: number;
+  points: number; // From the user's point of view (win 1, draw 0.5)
+  gameIds: string[];
+  children: Record<string, RepertoireNode>;
+}
+
+export interface RepertoireBranchPoint {
+  color: 'w' | 'b';
+  path: string[]; // Moves from the start position
+  fen: string;
+  intendedSan: string; // The move the drill asks for
+  games: number;
+  deviations: number; // Games where the user did not play the intended move
+  scoreRate: number; // User score through this node, 0-1
+  priority: number;
+  sampleGameId: string;
+  opening?: { eco?: string; name?: string };
+}
+
+const createNode = (san: string): RepertoireNode => ({ san, games: 0, points: 0, gameIds: [], children: {} });
+
+const userPoints = (game: ChessGame): number => {
+  if (game.result === '1/2-1/2') return 0.5;
+  const whiteWon = game.result === '1-0';
+  return (game.userColor === 'w') === whiteWon ? 1 : 0;
+};
+
+/**
+ * Builds the move tree of the user's games played with `color`.
+ */
+export const buildRepertoire = (games: ChessGame[], color: 'w' | 'b'): RepertoireNode => {
+  const root = createNode('');
+
+  games
+    .filter(g => g.userColor === color)
+    .forEach(game => {
+      let moves: string[];
+      try {
+        moves = parsePgn(game.pgn).mainline.slice(0, REPERTOIRE_MAX_PLIES).map(n => n.san);
+      } catch (e) {
+        return;
+      }
+
+      const points = userPoints(game);
+      let node = root;
+      node.games++;
+      node.points += points;
+      for (const san of moves) {
+        node = node.children[san] || (node.children[san] = createNode(san));
+        node.games++;
+        node.points += points;
+        node.gameIds.push(game.id);
+      }
+    });
+
+  return root;
+};
+
+/**
+ * The intended move at a branch: the best-scoring choice among moves played more than once,
+ * falling back to the most frequent move.
+ */
+const pickIntendedMove = (children: RepertoireNode[]): RepertoireNode => {
+  const rate = (n: RepertoireNode) => n.points / n.games;
+  const repeated = children.filter(c => c.games > 1);
+  const pool = repeated.length ? repeated : children;
+  return [...pool].sort((a, b) => rate(b) - rate(a) || b.games - a.games)[0];
+};
+
+/**
+ * Walks the tree and returns the user-to-move positions where they most often deviate or lose,
+ * highest priority first.
+ */
+export const findBranchPoints = (root: RepertoireNode, color: 'w' | 'b', games: ChessGame[]): RepertoireBranchPoint[] => {
+  const points: RepertoireBranchPoint[] = [];
+  const gamesById = new Map(games.map(g => [g.id, g]));
+
+  const walk = (node: RepertoireNode, path: string[]) => {
+    const children = Object.values(node.children);
+    const userToMove = (path.length % 2 === 0) === (color === 'w');
+
+    if (userToMove && children.length > 0 && node.games >= MIN_BRANCH_GAMES) {
+      const intended = pickIntendedMove(children);
+      const deviations = node.games - intended.games;
+      const scoreRate = node.points / node.games;
+      // Inconsistent choices and poor results both make a position worth drilling
+      const priority = deviations + (1 - scoreRate) * node.games * (children.length > 1 ? 1 : 0.5);
+
+      // A move the user always plays has no better line of theirs to drill, however it scores
+      if (deviations > 0) {
+        const board = new Chess();
+        path.forEach(san => board.move(san));
+        const sampleGameId = intended.gameIds[0];
+        points.push({
+          color,
+          path,
+          fen: board.fen(),
+          intendedSan: intended.san,
+          games: node.games,
+          deviations,
+          scoreRate,
+          priority,
+          sampleGameId,
+          opening: gamesById.get(sampleGameId)?.opening,
+        });
+      }
+    }
+
+    children.forEach(child => walk(child, [...path, child.san]));
+  };
+
+  walk(root, []);
+  return points.sort((a, b) => b.priority - a.priority);
+};
+
+const describeOpening = (opening?: { eco?: string; name?: string }): string => {
+  if (!opening?.name && !opening?.eco) return 'your opening';
+  if (opening.name && opening.eco) return `${opening.name} (${opening.eco})`;
+  return opening.name || opening.eco!;
+};
+
+const pluralTimes = (n: number) => `${n} time${n === 1 ? '' : 's'}`;
+
+export const branchPointToDrill = (point: RepertoireBranchPoint): Drill => {
+  const solutionSan = [point.intendedSan];
+  const pathKey = point.path.join('_') || 'start';
+  return {
+    id: `drill-opening-${point.color}-${pathKey}`,
+    sourceGameId: point.sampleGameId,
+    sourcePly: point.path.length,
+    fen: point.fen,
+    theme: Theme.OPENING,
+    goal: 'Play your repertoire move',
+    solutionSan,
+    difficulty: estimateDifficulty(point.fen, solutionSan),
+    explanation: `In ${describeOpening(point.opening)} you reached this position ${pluralTimes(point.games)} `
+      + `and left your best line ${pluralTimes(point.deviations)} (score ${Math.round(point.scoreRate * 100)}%).`
+  };
+};
+
+/**
+ * Opening drills for both colours, most urgent branch points first.
+ */
+export const generateRepertoireDrills = (games: ChessGame[], limit: number = 10): Drill[] => {
+  const points = (['w', 'b'] as const).flatMap(color => findBranchPoints(buildRepertoire(games, color), color, games));
+  return points
+    .sort((a, b) => b.priority - a.priority)
+    .slice(0, limit)
+    .map(branchPointToDrill);
+};
@@ -1,19 +1,73 @@
-import { DrillSchedule, IScheduler, DrillOutcome } from '../types';
-import { INITIAL_SCHEDULE_SETTINGS } from '../constants';
+import { DrillSchedule, IScheduler, DrillOutcome, SchedulerType, ScheduleState } from '../types';
+import { INITIAL_SCHEDULE_SETTINGS, LEARNING_STEP_SETTINGS, SCHEDULE_HISTORY_LIMIT } from '../constants';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Appends a review to the schedule's bounded history, shared by all schedulers.
+ */
+export const appendReview = (current: DrillSchedule, outcome: DrillOutcome, reviewedAt: number) =>
+  [...(current.reviews || []), { reviewedAt, outcome }].slice(-SCHEDULE_HISTORY_LIMIT);
+
+const isSameDay = (a: number, b: number) => new Date(a).toDateString() === new Date(b).toDateString();
+
+/**
+ * Lapse count after a review, shared by all schedulers. Failures count in any state, so a
+ * drill that never graduates can still become a leech, but at most once per day: in-session
+ * relearning retries do not add up to a leech on their own.
+ */
+export const countLapse = (current: DrillSchedule, failed: boolean, now: number): Pick<DrillSchedule, 'lapses' | 'lastLapseAt'> => {
+  if (!failed || (current.lastLapseAt !== undefined && isSameDay(current.lastLapseAt, now))) {
+    return { lapses: current.lapses, lastLapseAt: current.lastLapseAt };
+  }
+  return { lapses: (current.lapses || 0) + 1, lastLapseAt: now };
+};
+
+export const resolveScheduleState = (schedule: DrillSchedule): ScheduleState =>
+  schedule.state ?? (schedule.repetition > 0 ? ScheduleState.REVIEW : ScheduleState.NEW);
+
+export interface LearningStep {
+  state: ScheduleState.LEARNING | ScheduleState.RELEARNING;
+  step: number;
+  dueAt: number;
+}
+
+/**
+ * Minute-level steps for new and lapsed drills, shared by all schedulers.
+ * Returns the next step while the drill is still (re)learning, or null once it
+ * graduates (or stays) on day intervals. A perfect answer skips the remaining steps.
+ */
+export const nextLearningStep = (current: DrillSchedule, passed: boolean, perfect: boolean, now: number): LearningStep | null => {
+  const state = resolveScheduleState(current);
+  const relearning = state === ScheduleState.REVIEW || state === ScheduleState.RELEARNING;
+  const steps = relearning ? LEARNING_STEP_SETTINGS.relearningStepsMinutes : LEARNING_STEP_SETTINGS.learningStepsMinutes;
+  const nextState = relearning ? ScheduleState.RELEARNING : ScheduleState.LEARNING;
+
+  if (steps.length === 0) return null;
+  if (state === ScheduleState.REVIEW && passed) return null;
+  if (!passed) return { state: nextState, step: 0, dueAt: now + steps[0] * MINUTE_MS };
+  if (perfect) return null;
+
+  const step = (current.step ?? 0) + 1;
+  return step < steps.length ? { state: nextState, step, dueAt: now + steps[step] * MINUTE_MS } : null;
+};
 
 /**
  * Implementation of the SuperMemo 2 (SM-2) algorithm for spaced repetition.
  * Maps normalized DrillOutcome to SM-2 Grades (0-5).
  */
-class Sm2Scheduler implements IScheduler {
-  
-  public createInitialSchedule(drillId: string): DrillSchedule {
+export class Sm2Scheduler implements IScheduler {
+  public readonly type = SchedulerType.SM2;
+
+  public createInitialSchedule(drillId: string, now: number = Date.now()): DrillSchedule {
     return {
       drillId,
-      nextDueAt: Date.now(),
+      nextDueAt: now,
       interval: 0,
       repetition: 0,
       easeFactor: INITIAL_SCHEDULE_SETTINGS.initialEase,
+      algorithm: SchedulerType.SM2,
+      state: ScheduleState.NEW,
     };
   }
 
@@ -21,6 +75,7 @@ class Sm2Scheduler implements IScheduler {
     switch (outcome) {
       case DrillOutcome.PERFECT: return 5;
       case DrillOutcome.SLOW_SUCCESS: return 4;
+      case DrillOutcome.ALTERNATIVE_SUCCESS: return 4;
       case DrillOutcome.SUCCESS_WITH_HINT: return 3;
       case DrillOutcome.FAILURE: return 1;
       case DrillOutcome.ABANDONED: return 0;
@@ -28,9 +83,36 @@ class Sm2Scheduler implements IScheduler {
     }
   }
 
-  public calculateNext(current: DrillSchedule, outcome: DrillOutcome): DrillSchedule {
+  private adjustEase(easeFactor: number, grade: number): number {
+    // EF' = EF + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+    easeFactor = easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+    return easeFactor < 1.3 ? 1.3 : easeFactor;
+  }
+
+  public calculateNext(current: DrillSchedule, outcome: DrillOutcome, now: number = Date.now()): DrillSchedule {
     let { interval, repetition, easeFactor } = current;
     const grade = this.mapOutcomeToGrade(outcome);
+    const state = resolveScheduleState(current);
+    const lapsed = state === ScheduleState.REVIEW && grade < 3;
+    const lapse = countLapse(current, grade < 3, now);
+
+    const learningStep = nextLearningStep(current, grade >= 3, grade === 5, now);
+    if (learningStep) {
+      return {
+        ...current,
+        nextDueAt: learningStep.dueAt,
+        interval: 0,
+        repetition: lapsed ? 0 : repetition,
+        // Ease only moves on day-level reviews; a lapse is one
+        easeFactor: lapsed ? this.adjustEase(easeFactor, grade) : easeFactor,
+        algorithm: SchedulerType.SM2,
+        state: learningStep.state,
+        step: learningStep.step,
+        lastReviewedAt: now,
+        ...lapse,
+        reviews: appendReview(current, outcome, now),
+      };
+    }
 
     if (grade >= 3) {
       if (repetition === 0) {
@@ -42,27 +124,28 @@ class Sm2Scheduler implements IScheduler {
       }
       repetition += 1;
     } else {
-      // If incorrect, reset rep count but keep ease factor slightly adjusted
+      // Only reached when no relearning steps are configured
       repetition = 0;
-      interval = 1; // Revisit tomorrow (or sooner if we implemented strict queues)
+      interval = 1;
     }
 
-    // Update Ease Factor
-    // EF' = EF + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
-    easeFactor = easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
-    if (easeFactor < 1.3) easeFactor = 1.3;
+    easeFactor = this.adjustEase(easeFactor, grade);
 
     // Convert days to milliseconds for next due date
-    const nextDueAt = Date.now() + (interval * 24 * 60 * 60 * 1000);
+    const nextDueAt = now + (interval * 24 * 60 * 60 * 1000);
 
     return {
-      drillId: current.drillId,
+      ...current,
       nextDueAt,
       interval,
       repetition,
       easeFactor,
+      algorithm: SchedulerType.SM2,
+      state: ScheduleState.REVIEW,
+      step: undefined,
+      lastReviewedAt: now,
+      ...lapse,
+      reviews: appendReview(current, outcome, now),
     };
   }
 }
-
-export const scheduler = new Sm2Scheduler();
\ No newline at end of file
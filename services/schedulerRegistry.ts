@@ -0,0 +1,47 @@
+import { DrillSchedule, IScheduler, SchedulerType, UserProfile } from '../types';
+import { Sm2Scheduler } from './scheduler';
+import { FsrsScheduler, memoryStateFromSm2 } from './fsrsScheduler';
+
+export const SCHEDULER_LABELS: Record<SchedulerType, { name: string; description: string }> = {
+  [SchedulerType.SM2]: { name: 'SM-2', description: 'Classic ease-factor intervals (1, 6, then growing).' },
+  [SchedulerType.FSRS]: { name: 'FSRS', description: 'Models memory stability per drill; fewer reviews for the same retention.' },
+};
+
+const sm2 = new Sm2Scheduler();
+
+/**
+ * The scheduler the user picked in settings, with their fitted FSRS weights if any.
+ */
+export const getScheduler = (user?: Pick<UserProfile, 'schedulerType' | 'fsrsParameters'> | null): IScheduler => {
+  if (user?.schedulerType === SchedulerType.FSRS) return new FsrsScheduler(user.fsrsParameters);
+  return sm2;
+};
+
+/**
+ * Converts a schedule for use by `target`. The due date is kept, so switching never
+ * makes drills due early or pushes reviews back.
+ */
+export const migrateSchedule = (schedule: DrillSchedule, target: SchedulerType): DrillSchedule => {
+  const current = schedule.algorithm || SchedulerType.SM2;
+  if (current === target) return schedule;
+
+  if (target === SchedulerType.FSRS) {
+    const state = memoryStateFromSm2(schedule);
+    return {
+      ...schedule,
+      algorithm: SchedulerType.FSRS,
+      stability: state?.stability,
+      difficulty: state?.difficulty,
+      lastReviewedAt: schedule.lastReviewedAt ?? (state ? schedule.nextDueAt - schedule.interval * 24 * 60 * 60 * 1000 : undefined),
+    };
+  }
+
+  // FSRS keeps interval and repetition current, so SM-2 can carry on from them
+  return { ...schedule, algorithm: SchedulerType.SM2 };
+};
+
+export const migrateSchedules = (schedules: Record<string, DrillSchedule>, target: SchedulerType): Record<string, DrillSchedule> => {
+  const migrated: Record<string, DrillSchedule> = {};
+  Object.entries(schedules).forEach(([id, schedule]) => { migrated[id] = migrateSchedule(schedule, target); });
+  return migrated;
+};
@@ -0,0 +1,82 @@
+import { Drill, DrillSchedule, IDrillSelectionPolicy, ReviewSessionSettings, ScheduleState, SessionPlan } from '../types';
+import { REVIEW_SESSION_SETTINGS } from '../constants';
+import { resolveScheduleState } from './scheduler';
+
+const startOfDay = (now: number) => {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+const isNew = (schedule?: DrillSchedule) => !schedule || resolveScheduleState(schedule) === ScheduleState.NEW;
+
+const isSuspended = (schedule?: DrillSchedule) => !!schedule?.suspended;
+
+/**
+ * Reviews already done today: drills seen today that had been seen before today.
+ */
+export const countReviewsToday = (schedules: Record<string, DrillSchedule>, now: number): number => {
+  const dayStart = startOfDay(now);
+  return Object.values(schedules).filter(s => {
+    const reviews = s.reviews || [];
+    return reviews.length > 0 && reviews[0].reviewedAt < dayStart && reviews[reviews.length - 1].reviewedAt >= dayStart;
+  }).length;
+};
+
+export const getDueDrills = (drills: Drill[], schedules: Record<string, DrillSchedule>, now: number): Drill[] =>
+  drills
+    .filter(d => !isNew(schedules[d.id]) && !isSuspended(schedules[d.id]) && schedules[d.id].nextDueAt <= now)
+    .sort((a, b) => schedules[a.id].nextDueAt - schedules[b.id].nextDueAt);
+
+/**
+ * Overdue-first selection: due drills in the order they fell due, topped up with
+ * new drills up to a fixed share of the session, within a daily review cap.
+ */
+export class DueFirstSelectionPolicy implements IDrillSelectionPolicy {
+  private readonly settings: ReviewSessionSettings;
+
+  constructor(settings: Partial<ReviewSessionSettings> = {}) {
+    this.settings = { ...REVIEW_SESSION_SETTINGS, ...settings };
+  }
+
+  public selectNextDrill(drills: Drill[], schedules: Record<string, DrillSchedule>): Drill | null {
+    const [due] = getDueDrills(drills, schedules, Date.now());
+    return due || drills.find(d => isNew(schedules[d.id]) && !isSuspended(schedules[d.id])) || null;
+  }
+
+  public planSession(drills: Drill[], schedules: Record<string, DrillSchedule>, now: number): SessionPlan {
+    const { sessionSize, dailyReviewCap, newDrillRatio } = this.settings;
+    const capLeft = Math.max(0, dailyReviewCap - countReviewsToday(schedules, now));
+    const newSlots = Math.round(sessionSize * newDrillRatio);
+
+    const reviewIds = getDueDrills(drills, schedules, now)
+      .slice(0, Math.min(capLeft, sessionSize - newSlots))
+      .map(d => d.id);
+
+    // New drills fill the session when there is not enough to review
+    const newCount = sessionSize - reviewIds.length;
+    const newIds = drills
+      .filter(d => isNew(schedules[d.id]) && !isSuspended(schedules[d.id]))
+      .slice(0, newCount)
+      .map(d => d.id);
+
+    return { reviewIds, newIds, newToGenerate: newCount - newIds.length };
+  }
+
+  /**
+   * Spreads new drills evenly between reviews instead of bunching them at either end.
+   */
+  public buildQueue(plan: SessionPlan, generatedIds: string[]): string[] {
+    const fresh = [...plan.newIds, ...generatedIds];
+    const total = plan.reviewIds.length + fresh.length;
+    const queue: string[] = [];
+    let r = 0;
+    let n = 0;
+    for (let slot = 0; slot < total; slot++) {
+      const newDue = fresh.length > 0 && (n + 1) * total <= (slot + 1) * fresh.length;
+      if ((newDue && n < fresh.length) || r >= plan.reviewIds.length) queue.push(fresh[n++]);
+      else queue.push(plan.reviewIds[r++]);
+    }
+    return queue;
+  }
+}
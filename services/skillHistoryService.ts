@@ -0,0 +1,65 @@
+import { DrillOutcome, SkillSnapshot, SkillState, Theme } from '../types';
+import { SKILL_HISTORY_LIMIT } from '../constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Mastery points either side of the line when confidence is zero
+const MAX_BAND_WIDTH = 25;
+
+export type SkillHistory = Partial<Record<Theme, SkillSnapshot[]>>;
+
+export const toSnapshot = (skill: SkillState, at: number, drillId?: string, outcome?: DrillOutcome): SkillSnapshot => ({
+  at,
+  mastery: skill.mastery,
+  confidence: skill.confidence,
+  streak: skill.streak,
+  drillId,
+  outcome,
+});
+
+/**
+ * One starting snapshot per theme, so the first week of training has a baseline to compare against.
+ */
+export const seedSkillHistory = (skills: Record<Theme, SkillState>, now: number): SkillHistory =>
+  Object.values(Theme).reduce((acc, theme) => {
+    if (skills[theme]) acc[theme] = [toSnapshot(skills[theme], now)];
+    return acc;
+  }, {} as SkillHistory);
+
+export const appendSkillSnapshot = (history: SkillHistory | undefined, theme: Theme, skill: SkillState, drillId: string, outcome: DrillOutcome): SkillHistory => {
+  const series = [...(history?.[theme] || []), toSnapshot(skill, skill.lastPracticed || Date.now(), drillId, outcome)];
+  return { ...history, [theme]: series.slice(-SKILL_HISTORY_LIMIT) };
+};
+
+/**
+ * The snapshot in force at `time`: the last one taken at or before it.
+ */
+export const snapshotAt = (series: SkillSnapshot[], time: number): SkillSnapshot | undefined => {
+  let found: SkillSnapshot | undefined;
+  for (const snapshot of series) {
+    if (snapshot.at > time) break;
+    found = snapshot;
+  }
+  return found;
+};
+
+/**
+ * Mastery change over the last seven days. Measured from the oldest snapshot when the
+ * history is younger than a week; null when there is nothing to compare.
+ */
+export const weekOverWeekDelta = (series: SkillSnapshot[] | undefined, now: number): number | null => {
+  if (!series || series.length < 2) return null;
+  const baseline = snapshotAt(series, now - 7 * DAY_MS) || series[0];
+  const latest = series[series.length - 1];
+  return parseFloat((latest.mastery - baseline.mastery).toFixed(1));
+};
+
+/**
+ * Mastery range the model cannot rule out, narrowing as confidence grows.
+ */
+export const confidenceBand = (snapshot: SkillSnapshot): { low: number; high: number } => {
+  const halfWidth = (1 - snapshot.confidence) * MAX_BAND_WIDTH;
+  return {
+    low: Math.max(0, snapshot.mastery - halfWidth),
+    high: Math.min(100, snapshot.mastery + halfWidth),
+  };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { SkillState } from '../types';
+import { MASTERY_DECAY_SETTINGS } from '../constants';
+import { decaySkill, decaySkills } from './skillService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRACTISED = new Date(2026, 2, 10).getTime();
+
+const skill: SkillState = { mastery: 80, confidence: 0.8, streak: 4, lastPracticed: PRACTISED };
+const idle = (days: number) => PRACTISED + days * DAY_MS;
+
+describe('decaySkill', () => {
+  const { graceDays, halfLifeDays, floorFraction, confidenceHalfLifeDays } = MASTERY_DECAY_SETTINGS;
+
+  it('leaves a skill alone within the grace period', () => {
+    expect(decaySkill(skill, idle(1))).toBe(skill);
+    expect(decaySkill(skill, idle(graceDays))).toBe(skill);
+  });
+
+  it('halves mastery above the floor every half-life after the grace period', () => {
+    const floor = skill.mastery * floorFraction;
+    const decayed = decaySkill(skill, idle(graceDays + halfLifeDays));
+    expect(decayed.mastery).toBeCloseTo(floor + (skill.mastery - floor) / 2, 1);
+    expect(decayed.streak).toBe(skill.streak);
+    expect(decayed.lastPracticed).toBe(PRACTISED);
+  });
+
+  it('never takes mastery below the floor', () => {
+    const decayed = decaySkill(skill, idle(graceDays + 20 * halfLifeDays));
+    expect(decayed.mastery).toBeGreaterThanOrEqual(skill.mastery * floorFraction);
+    expect(decayed.mastery).toBeCloseTo(skill.mastery * floorFraction, 1);
+  });
+
+  it('drops confidence on its own half-life', () => {
+    const decayed = decaySkill(skill, idle(graceDays + confidenceHalfLifeDays));
+    expect(decayed.confidence).toBeCloseTo(skill.confidence / 2, 2);
+  });
+
+  it('does not decay a skill that was never practised', () => {
+    const fresh = { ...skill, lastPracticed: 0 };
+    expect(decaySkill(fresh, idle(365))).toBe(fresh);
+  });
+});
+
+describe('decaySkills', () => {
+  it('decays each skill by its own last practice', () => {
+    const decayed = decaySkills({ recent: { ...skill, lastPracticed: idle(100) }, stale: skill }, idle(101));
+    expect(decayed.recent.mastery).toBe(skill.mastery);
+    expect(decayed.stale.mastery).toBeLessThan(skill.mastery);
+  });
+});
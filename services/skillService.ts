@@ -1,4 +1,7 @@
 import { SkillState, DrillOutcome } from '../types';
+import { MASTERY_DECAY_SETTINGS } from '../constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Interface for Skill Update Policies.
@@ -7,6 +10,21 @@ export interface ISkillUpdatePolicy {
   update(currentState: SkillState, outcome: DrillOutcome, drillDifficulty: number): SkillState;
 }
 
+/**
+ * Score of an outcome between 0 (failed) and 1 (perfect), shared by the skill and rating models.
+ */
+export const getPerformanceScore = (outcome: DrillOutcome): number => {
+  switch (outcome) {
+    case DrillOutcome.PERFECT: return 1.0;
+    case DrillOutcome.SLOW_SUCCESS: return 0.85; // Penalty for slowness
+    case DrillOutcome.ALTERNATIVE_SUCCESS: return 0.9; // Sound, but not the pattern being trained
+    case DrillOutcome.SUCCESS_WITH_HINT: return 0.5; // Half credit
+    case DrillOutcome.FAILURE: return 0.0;
+    case DrillOutcome.ABANDONED: return 0.0;
+    default: return 0.0;
+  }
+};
+
 /**
  * Advanced Glicko-inspired Policy.
  * Adjusts mastery based on:
@@ -16,7 +34,7 @@ export interface ISkillUpdatePolicy {
  */
 class AdvancedSkillPolicy implements ISkillUpdatePolicy {
   
-  // Maps Drill Difficulty (1-5) to a Mastery Scale (0-100)
+  // Maps Drill Difficulty (1-5, continuous after calibration) to a Mastery Scale (0-100)
   private getDrillRating(difficulty: number): number {
     // 1 -> 20, 2 -> 40, 3 -> 60, 4 -> 80, 5 -> 100
     return Math.min(100, Math.max(10, difficulty * 20));
@@ -30,21 +48,10 @@ class AdvancedSkillPolicy implements ISkillUpdatePolicy {
     return 1 / (1 + Math.pow(10, -diff / 40));
   }
 
-  private getPerformanceScore(outcome: DrillOutcome): number {
-    switch (outcome) {
-      case DrillOutcome.PERFECT: return 1.0;
-      case DrillOutcome.SLOW_SUCCESS: return 0.85; // Penalty for slowness
-      case DrillOutcome.SUCCESS_WITH_HINT: return 0.5; // Half credit
-      case DrillOutcome.FAILURE: return 0.0;
-      case DrillOutcome.ABANDONED: return 0.0;
-      default: return 0.0;
-    }
-  }
-
   public update(currentState: SkillState, outcome: DrillOutcome, drillDifficulty: number): SkillState {
     const drillRating = this.getDrillRating(drillDifficulty);
     const expectedScore = this.getExpectedScore(currentState.mastery, drillRating);
-    const actualScore = this.getPerformanceScore(outcome);
+    const actualScore = getPerformanceScore(outcome);
 
     // K-Factor determines volatility. 
     // If we are confident (1.0), K is low (stable).
@@ -107,4 +114,29 @@ export const createInitialSkill = (): SkillState => ({
   confidence: 0.2, // Start with high uncertainty
   streak: 0,
   lastPracticed: 0
-});
\ No newline at end of file
+});
+
+/**
+ * The skill as it stands `now`, after forgetting since it was last practised: mastery
+ * slides towards a floor and confidence drops. Read-side only; stored skills keep the
+ * values from the last update.
+ */
+export const decaySkill = (skill: SkillState, now: number): SkillState => {
+  const { graceDays, halfLifeDays, floorFraction, confidenceHalfLifeDays } = MASTERY_DECAY_SETTINGS;
+  if (!skill.lastPracticed) return skill;
+  const idleDays = (now - skill.lastPracticed) / DAY_MS - graceDays;
+  if (idleDays <= 0) return skill;
+
+  const floor = skill.mastery * floorFraction;
+  return {
+    ...skill,
+    mastery: parseFloat((floor + (skill.mastery - floor) * Math.pow(0.5, idleDays / halfLifeDays)).toFixed(2)),
+    confidence: parseFloat((skill.confidence * Math.pow(0.5, idleDays / confidenceHalfLifeDays)).toFixed(2)),
+  };
+};
+
+export const decaySkills = <K extends string>(skills: Partial<Record<K, SkillState>>, now: number): Record<K, SkillState> =>
+  (Object.entries(skills) as [K, SkillState][]).reduce((acc, [key, skill]) => {
+    acc[key] = decaySkill(skill, now);
+    return acc;
+  }, {} as Record<K, SkillState>);
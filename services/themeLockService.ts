@@ -0,0 +1,37 @@
+import { Drill, DrillOutcome, DrillSchedule, Theme, ThemeLock } from '../types';
+import { THEME_LOCK_SETTINGS } from '../constants';
+
+export type ThemeLocks = Partial<Record<Theme, ThemeLock>>;
+export type RecentOutcomes = Partial<Record<Theme, DrillOutcome[]>>;
+
+export const recordThemeOutcome = (recent: RecentOutcomes | undefined, theme: Theme, outcome: DrillOutcome): RecentOutcomes => ({
+  ...recent,
+  [theme]: [...(recent?.[theme] || []), outcome].slice(-THEME_LOCK_SETTINGS.recentOutcomeLimit),
+});
+
+/**
+ * Locks the theme for the cooldown and clears its outcomes, so it does not lock again
+ * straight after unlocking.
+ */
+export const lockTheme = (locks: ThemeLocks | undefined, recent: RecentOutcomes | undefined, theme: Theme, now: number): { themeLocks: ThemeLocks; recentOutcomes: RecentOutcomes } => ({
+  themeLocks: { ...locks, [theme]: { lockedAt: now, unlocksAt: now + THEME_LOCK_SETTINGS.cooldownMinutes * 60 * 1000 } },
+  recentOutcomes: { ...recent, [theme]: [] },
+});
+
+/**
+ * Locks still in force at `now`; expired ones are dropped.
+ */
+export const activeThemeLocks = (locks: ThemeLocks | undefined, now: number): ThemeLocks =>
+  (Object.entries(locks || {}) as [Theme, ThemeLock][]).reduce((acc, [theme, lock]) => {
+    if (lock.unlocksAt > now) acc[theme] = lock;
+    return acc;
+  }, {} as ThemeLocks);
+
+/**
+ * The easiest stored drills of a locked theme, to rebuild confidence before it unlocks.
+ */
+export const pickRemedialDrills = (drills: Drill[], schedules: Record<string, DrillSchedule>, theme: Theme): Drill[] =>
+  drills
+    .filter(d => d.theme === theme && !schedules[d.id]?.suspended)
+    .sort((a, b) => a.difficulty - b.difficulty)
+    .slice(0, THEME_LOCK_SETTINGS.remedialSetSize);
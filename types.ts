@@ -9,12 +9,38 @@ export enum Theme {
   DEFENSE = 'Missed Threat',
 }
 
+/**
+ * Concrete tactical patterns detected on the board (finer-grained than Theme).
+ */
+export enum TacticalMotif {
+  FORK = 'Fork',
+  PIN = 'Pin',
+  SKEWER = 'Skewer',
+  DISCOVERED_ATTACK = 'Discovered Attack',
+  BACK_RANK_MATE = 'Back-Rank Mate',
+  DEFLECTION = 'Deflection',
+  HANGING_PIECE = 'Hanging Piece',
+  MATE_IN_N = 'Mate in N',
+  UNDERPROMOTION = 'Underpromotion',
+}
+
+export enum EndgameType {
+  PAWN = 'King & Pawn',
+  ROOK = 'Rook Ending',
+  MINOR = 'Minor Piece',
+  OPPOSITE_BISHOPS = 'Opposite Bishops',
+  QUEEN = 'Queen Ending',
+  MIXED = 'Mixed Pieces',
+}
+
 export enum TrainingMode {
   ANY = 'ANY',
   RANDOM_MOMENT = 'RANDOM_MOMENT',
   CRITICAL_POSITION = 'CRITICAL_POSITION',
   START_FROM_MOVE = 'START_FROM_MOVE',
-  ENDGAME_FINISH = 'ENDGAME_FINISH'
+  ENDGAME_FINISH = 'ENDGAME_FINISH',
+  TIME_TROUBLE = 'TIME_TROUBLE',
+  OPENING_REPERTOIRE = 'OPENING_REPERTOIRE'
 }
 
 /**
@@ -48,6 +74,18 @@ export interface SkillState {
 // Alias for clarity if needed externally
 export type SkillModel = SkillState;
 
+/**
+ * A skill state as it stood right after one drill, kept to chart progress over time.
+ */
+export interface SkillSnapshot {
+  at: number;
+  mastery: number;
+  confidence: number;
+  streak: number;
+  drillId?: string; // The drill whose outcome produced this state
+  outcome?: DrillOutcome;
+}
+
 export type AccountProvider = 'lichess' | 'chesscom';
 export type TimeControl = 'bullet' | 'blitz' | 'rapid' | 'classical' | 'daily' | 'unknown';
 
@@ -58,12 +96,54 @@ export interface LinkedAccount {
   status: 'active' | 'error' | 'pending';
 }
 
+/**
+ * A rating with its uncertainty (Glicko rating deviation), on the Lichess scale.
+ */
+export interface RatingEstimate {
+  rating: number;
+  deviation: number;
+  samples: number; // Games or drills the estimate is based on
+  updatedAt: number;
+}
+
+export interface TimeControlRating {
+  game?: RatingEstimate; // From the player's own rated games
+  training: RatingEstimate; // Refined by drill outcomes
+}
+
+/**
+ * A theme taken out of training after the learning-loop stop condition fired.
+ */
+export interface ThemeLock {
+  lockedAt: number;
+  unlocksAt: number;
+}
+
 export interface UserProfile {
   id: string;
   username: string; // Internal username
   accounts: LinkedAccount[]; // Unified linked accounts
   rating: number; // Aggregate rating estimate
+  ratings?: Partial<Record<TimeControl, TimeControlRating>>;
   skills: Record<Theme, SkillState>; 
+  motifSkills?: Partial<Record<TacticalMotif, SkillState>>; // Only motifs the user has met
+  difficultyCalibration?: DifficultyCalibration;
+  schedulerType?: SchedulerType; // Defaults to SM-2
+  fsrsParameters?: number[]; // Fitted FSRS weights; defaults are used when absent
+  reviewSettings?: Partial<ReviewSessionSettings>;
+  skillHistory?: Partial<Record<Theme, SkillSnapshot[]>>; // Oldest first
+  recentOutcomes?: Partial<Record<Theme, DrillOutcome[]>>; // Latest last; feeds the stop condition
+  themeLocks?: Partial<Record<Theme, ThemeLock>>;
+  contractPreset?: ContractPreset; // Defaults to balanced
+  contractOverrides?: Partial<LearningContractConfig>;
+}
+
+/**
+ * Observed success per estimated-difficulty bucket (index 0 = difficulty 1).
+ * Used to pull the feature-based estimate towards what users actually solve.
+ */
+export interface DifficultyCalibration {
+  buckets: { attempts: number; successes: number }[];
 }
 
 export interface ChessGame {
@@ -76,6 +156,17 @@ export interface ChessGame {
   source: AccountProvider; // Track where it came from
   timeControl: TimeControl;
   rated: boolean;
+  whiteRating?: number;
+  blackRating?: number;
+  // Resolved at import against the linked accounts; undefined if none of them played
+  userColor?: 'w' | 'b';
+  userRating?: number;
+  opponentRating?: number;
+  opening?: { eco?: string; name?: string };
+  // Clock data from %clk comments; absent for games imported without clocks
+  clock?: { initialSeconds: number; incrementSeconds: number };
+  clockSeconds?: number[]; // Time left after each ply
+  moveTimes?: number[]; // Seconds spent on each ply (increment-adjusted)
 }
 
 export interface Position {
@@ -83,40 +174,92 @@ export interface Position {
   toMove: 'w' | 'b';
 }
 
+/**
+ * A move accepted in place of the main solution move at one step.
+ */
+export interface DrillAlternative {
+  san: string;
+  // Moves after `san`, opponent first. Absent: the drill ends here unless the move transposes.
+  continuation?: string[];
+}
+
 export interface Drill {
   id: string;
   sourceGameId: string;
+  sourcePly?: number; // Index of the move in the source game this drill starts at
   fen: string;
   theme: Theme;
+  motifs?: TacticalMotif[]; // Patterns present in the solution line
+  endgameType?: EndgameType; // Set when the start position is an endgame
   goal: string; // e.g., "Find the winning fork"
   solutionSan: string[]; // Sequence of correct moves in SAN
+  alternatives?: DrillAlternative[][]; // Indexed like solutionSan; only solver steps are populated
   playedMoveSan?: string; // The move actually played in the game (for comparison)
-  difficulty: number; // 1-5
+  difficulty: number; // 1.0-5.0, estimated from position features
+  timeTrouble?: boolean; // The user was short on time at this moment in the game
+  seed?: number; // RNG seed the drill was generated with (see generateDrillFromMode)
+  tags?: string[]; // e.g. 'leech'
+  prerequisiteOf?: string; // Set on simplified drills built to remediate a leech
   explanation: string; // Static explanation generated by analysis
 }
 
+export enum SchedulerType {
+  SM2 = 'SM2',
+  FSRS = 'FSRS',
+}
+
+export enum ScheduleState {
+  NEW = 'NEW',
+  LEARNING = 'LEARNING', // Minute-level steps before the first day interval
+  REVIEW = 'REVIEW', // Day-level intervals
+  RELEARNING = 'RELEARNING', // Minute-level steps after a lapse
+}
+
+export interface ScheduleReview {
+  reviewedAt: number; // Timestamp
+  outcome: DrillOutcome;
+}
+
 export interface DrillSchedule {
   drillId: string;
   nextDueAt: number; // Timestamp
   interval: number; // Days
   repetition: number;
   easeFactor: number;
+  algorithm?: SchedulerType; // Absent on schedules created before FSRS: SM-2
+  state?: ScheduleState; // Absent on older schedules: REVIEW once repeated, else NEW
+  step?: number; // Index into the (re)learning steps while in LEARNING or RELEARNING
+  // FSRS memory state (absent until the first FSRS review or migration)
+  stability?: number; // Days until recall probability falls to 90%
+  difficulty?: number; // 1-10
+  lastReviewedAt?: number; // Timestamp
+  lapses?: number; // Days with a failed review, in any state; drives leech detection
+  lastLapseAt?: number; // Timestamp of the failure that last counted as a lapse
+  suspended?: boolean; // Leeches are suspended until the user brings them back
+  suspendedAt?: number; // Timestamp
+  reviews?: ScheduleReview[]; // Most recent reviews, oldest first (used to fit FSRS parameters)
 }
 
 export enum DrillOutcome {
   PERFECT = 'PERFECT',             // Correct on first try, fast (<15s)
   SLOW_SUCCESS = 'SLOW_SUCCESS',   // Correct on first try, slow (>15s)
+  ALTERNATIVE_SUCCESS = 'ALTERNATIVE_SUCCESS', // Correct on first try with an accepted alternative, not the main line
   SUCCESS_WITH_HINT = 'SUCCESS_WITH_HINT', // Correct after a retry (hint)
   FAILURE = 'FAILURE',             // Failed 2+ times or gave up
   ABANDONED = 'ABANDONED'          // Skipped
 }
 
 export interface Attempt {
+  id: string;
   drillId: string;
+  theme: Theme;
   timestamp: number;
   outcome: DrillOutcome;
   durationMs: number;
-  userMoves: string[];
+  userMoves: string[]; // Every move tried, wrong ones included, in order
+  moveTimesMs: number[]; // Thinking time before each of userMoves
+  hintUsed: boolean;
+  coachVerdict?: CoachResponse['verdict']; // Filled in once the coach has answered
 }
 
 // Coach Schema
@@ -130,12 +273,16 @@ export interface CoachResponse {
 // --- LEARNING LOOP CONTRACT TYPES ---
 
 export interface LearningContractConfig {
-  perfectTimeThresholdMs: number; // 15000
+  perfectTimeThresholdMs: number; // 15000, for a one-move drill of difficulty 1
+  timePerExtraMoveMs: number; // Added for each solver move after the first
+  difficultyTimeFactor: number; // Threshold grows by this fraction per difficulty point above 1
   maxRetriesAllowed: number; // 1 (2nd error = failure)
   masteryThreshold: number; // 80
   tiltFailureLimit: number; // 3 consecutive fails stops the theme
 }
 
+export type ContractPreset = 'blitz' | 'balanced' | 'classical';
+
 export interface DrillEvaluation {
   outcome: DrillOutcome;
   skillDelta: number;
@@ -145,11 +292,81 @@ export interface DrillEvaluation {
 // Math / Plugin Interfaces
 
 export interface IScheduler {
-  calculateNext(current: DrillSchedule, outcome: DrillOutcome): DrillSchedule;
+  readonly type: SchedulerType;
+  createInitialSchedule(drillId: string, now?: number): DrillSchedule;
+  calculateNext(current: DrillSchedule, outcome: DrillOutcome, now?: number): DrillSchedule; // `now` lets simulations run on a virtual clock
+}
+
+/**
+ * A single principal variation reported by a UCI engine.
+ * Scores are from the perspective of the side to move.
+ */
+export interface EngineLine {
+  multiPv: number; // 1 = best line
+  depth: number;
+  scoreCp?: number; // Centipawns (absent when a mate is found)
+  mate?: number; // Moves to mate; negative if the side to move is getting mated
+  pv: string[]; // Moves in UCI notation (e.g. "e2e4", "e7e8q")
+}
+
+export interface EngineAnalysis {
+  fen: string;
+  bestMove: string | null; // UCI, null if no legal moves
+  lines: EngineLine[];
+}
+
+export interface EngineSearchOptions {
+  depth?: number;
+  multiPv?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Any UCI-speaking engine. The browser build wraps Stockfish in a Web Worker;
+ * tests can pass a scripted fake.
+ */
+export interface IChessEngine {
+  analyse(fen: string, options?: EngineSearchOptions): Promise<EngineAnalysis>;
+  terminate(): void;
+}
+
+/**
+ * Where profiles, games, drills, schedules and attempts live between visits.
+ * Writes reject when the data could not be stored, so callers can tell the user.
+ */
+export interface IStorageBackend {
+  readonly name: string;
+  loadUser(): Promise<UserProfile | null>;
+  saveUser(user: UserProfile): Promise<void>;
+  loadGames(): Promise<ChessGame[]>;
+  saveGames(games: ChessGame[]): Promise<void>;
+  loadDrills(): Promise<Drill[]>;
+  saveDrills(drills: Drill[]): Promise<void>;
+  loadSchedules(): Promise<Record<string, DrillSchedule>>;
+  saveSchedules(schedules: Record<string, DrillSchedule>): Promise<void>;
+  loadAttempts(): Promise<Attempt[]>;
+  saveAttempts(attempts: Attempt[]): Promise<void>;
+  loadTimeControls(): Promise<TimeControl[]>;
+  saveTimeControls(tcs: TimeControl[]): Promise<void>;
+  clearAll(): Promise<void>;
+}
+
+export interface ReviewSessionSettings {
+  sessionSize: number; // Drills per review session
+  dailyReviewCap: number; // Reviews of already-seen drills per day
+  newDrillRatio: number; // Share of a session given to new drills, 0-1
+}
+
+export interface SessionPlan {
+  reviewIds: string[]; // Due drills, most overdue first
+  newIds: string[]; // Stored drills never reviewed
+  newToGenerate: number; // New drills still needed from the generator
 }
 
 export interface IDrillSelectionPolicy {
   selectNextDrill(drills: Drill[], schedules: Record<string, DrillSchedule>): Drill | null;
+  planSession(drills: Drill[], schedules: Record<string, DrillSchedule>, now: number): SessionPlan;
+  buildQueue(plan: SessionPlan, generatedIds: string[]): string[];
 }
 
 export interface IChatMessage {